@@ -7,6 +7,11 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { AppProvider } from "@/contexts/AppContext";
 import { Navbar } from "@/components/Navbar";
 import Index from "./pages/Index";
+import Compare from "./pages/Compare";
+import History from "./pages/History";
+import Trends from "./pages/Trends";
+import Transaction from "./pages/Transaction";
+import Samples from "./pages/Samples";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,6 +28,11 @@ const App = () => (
               <Navbar />
               <Routes>
                 <Route path="/" element={<Index />} />
+                <Route path="/compare" element={<Compare />} />
+                <Route path="/history" element={<History />} />
+                <Route path="/trends" element={<Trends />} />
+                <Route path="/transaction/:label" element={<Transaction />} />
+                <Route path="/samples" element={<Samples />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFound />} />
               </Routes>
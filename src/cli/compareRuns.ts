@@ -0,0 +1,185 @@
+/**
+ * Headless regression check for CI pipelines:
+ *
+ *   npm run compare -- baseline.jtl candidate.jtl [options]
+ *
+ * Prints a verdict per transaction and exits with 1 when any transaction
+ * regressed, 2 on usage or parse errors, and 0 otherwise.
+ */
+import { createReadStream } from 'node:fs';
+import { createGunzip } from 'node:zlib';
+import { JTLParser } from '@/utils/jtlParser';
+import { JTLReader } from '@/utils/jtlReader';
+import {
+  DEFAULT_REGRESSION_OPTIONS,
+  DistributionTest,
+  RegressionOptions,
+  compareDistributions,
+  regressionExitCode
+} from '@/utils/regression';
+
+const USAGE = `Usage: npm run compare -- <baseline.jtl> <candidate.jtl> [options]
+
+Options:
+  --test <mann-whitney|kolmogorov-smirnov>  Distribution test (default: mann-whitney)
+  --alpha <number>                          Significance level (default: ${DEFAULT_REGRESSION_OPTIONS.alpha})
+  --min-effect <number>                     Minimum |Cliff's delta| (default: ${DEFAULT_REGRESSION_OPTIONS.minEffectSize})
+  --p95-tolerance <number>                  p95 tolerance as a fraction of baseline p95 (default: ${DEFAULT_REGRESSION_OPTIONS.p95Tolerance})
+  --min-samples <number>                    Minimum samples per transaction (default: ${DEFAULT_REGRESSION_OPTIONS.minSamples})
+  --fail-on-inconclusive                    Also exit with 1 when a verdict is inconclusive
+  --json                                    Print results as JSON
+`;
+
+const VERDICT_SYMBOLS = {
+  regressed: '✗',
+  improved: '✓',
+  unchanged: '=',
+  inconclusive: '?'
+};
+
+interface CliArguments {
+  files: string[];
+  options: RegressionOptions;
+  failOnInconclusive: boolean;
+  json: boolean;
+}
+
+const parseArguments = (args: string[]): CliArguments => {
+  const files: string[] = [];
+  const options = { ...DEFAULT_REGRESSION_OPTIONS };
+  let failOnInconclusive = false;
+  let json = false;
+
+  const numberArgument = (name: string, value: string | undefined) => {
+    const parsed = Number(value);
+    if (value === undefined || Number.isNaN(parsed)) {
+      throw new Error(`${name} expects a number`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--test': {
+        const test = args[++i];
+        if (test !== 'mann-whitney' && test !== 'kolmogorov-smirnov') {
+          throw new Error(`Unknown test "${test}"`);
+        }
+        options.test = test as DistributionTest;
+        break;
+      }
+      case '--alpha':
+        options.alpha = numberArgument(arg, args[++i]);
+        break;
+      case '--min-effect':
+        options.minEffectSize = numberArgument(arg, args[++i]);
+        break;
+      case '--p95-tolerance':
+        options.p95Tolerance = numberArgument(arg, args[++i]);
+        break;
+      case '--min-samples':
+        options.minSamples = numberArgument(arg, args[++i]);
+        break;
+      case '--fail-on-inconclusive':
+        failOnInconclusive = true;
+        break;
+      case '--json':
+        json = true;
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+        files.push(arg);
+    }
+  }
+
+  if (files.length !== 2) {
+    throw new Error('Expected a baseline and a candidate file');
+  }
+  return { files, options, failOnInconclusive, json };
+};
+
+/**
+ * Streams a results file into a parser the way the browser worker does, so
+ * soak-test files larger than the longest possible string still load.
+ */
+const loadRun = async (path: string): Promise<JTLParser> => {
+  const reader = new JTLReader();
+  const decoder = new TextDecoder();
+  const parser = new JTLParser();
+
+  const file = createReadStream(path);
+  const input = path.endsWith('.gz') ? file.pipe(createGunzip()) : file;
+  // Errors on the file itself do not travel down the pipe
+  file.on('error', error => input.destroy(error));
+
+  for await (const chunk of input) {
+    parser.appendRecords(reader.push(decoder.decode(chunk, { stream: true })));
+  }
+  parser.appendRecords(reader.push(decoder.decode()));
+  parser.appendRecords(reader.finish());
+
+  const result = parser.completeParse(reader.getDebugInfo(), reader.getError());
+  if (!result.success) {
+    throw new Error(`${path}: ${result.error || 'no valid performance data found'}`);
+  }
+  return parser;
+};
+
+const main = async (): Promise<number> => {
+  let cli: CliArguments;
+  try {
+    cli = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  // The parser logs its progress for the browser console; keep stdout for the report
+  const log = console.log;
+  console.log = () => {};
+
+  let baseline: JTLParser;
+  let candidate: JTLParser;
+  try {
+    baseline = await loadRun(cli.files[0]);
+    candidate = await loadRun(cli.files[1]);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+    return 2;
+  } finally {
+    console.log = log;
+  }
+
+  const results = compareDistributions(baseline, candidate, cli.options);
+  const exitCode = regressionExitCode(results, cli.failOnInconclusive);
+
+  if (cli.json) {
+    process.stdout.write(`${JSON.stringify({ exitCode, results }, null, 2)}\n`);
+    return exitCode;
+  }
+
+  const labelWidth = Math.min(48, Math.max(...results.map(result => result.label.length)));
+  for (const result of results) {
+    const { estimate, lower, upper } = result.p95Delta;
+    process.stdout.write(
+      `${VERDICT_SYMBOLS[result.verdict]} ${result.label.padEnd(labelWidth).slice(0, labelWidth)}  ` +
+      `${result.verdict.padEnd(12)} p95 ${estimate >= 0 ? '+' : ''}${estimate.toFixed(0)}ms ` +
+      `[${lower.toFixed(0)}, ${upper.toFixed(0)}]  ${result.reason}\n`
+    );
+  }
+
+  const regressed = results.filter(result => result.verdict === 'regressed').length;
+  process.stdout.write(`\n${regressed} of ${results.length} regressed\n`);
+  return exitCode;
+};
+
+// Anything main did not handle is a crash, not a regression
+main()
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 2;
+  });
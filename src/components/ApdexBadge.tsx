@@ -0,0 +1,36 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ApdexScore, getApdexRating } from "@/utils/apdex";
+
+interface ApdexBadgeProps {
+  apdex: ApdexScore;
+  /** T used for this score, shown in the tooltip */
+  threshold: number;
+}
+
+const COLOR_STYLES = {
+  success: 'bg-success/10 text-success border-success/30',
+  info: 'bg-info/10 text-info border-info/30',
+  warning: 'bg-warning/10 text-warning border-warning/30',
+  error: 'bg-error/10 text-error border-error/30'
+};
+
+export const ApdexBadge = ({ apdex, threshold }: ApdexBadgeProps) => {
+  const { rating, color } = getApdexRating(apdex.score);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`font-mono cursor-help ${COLOR_STYLES[color]}`}>
+          {apdex.score.toFixed(2)} {rating}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="text-xs space-y-1">
+        <p className="font-medium">T = {threshold}ms</p>
+        <p className="font-mono">
+          {apdex.satisfied.toLocaleString()} satisfied • {apdex.tolerating.toLocaleString()} tolerating • {apdex.frustrated.toLocaleString()} frustrated
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,63 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ApdexBadge } from "@/components/ApdexBadge";
+import { ApdexScore, ApdexSettings } from "@/utils/apdex";
+import { Settings2 } from "lucide-react";
+
+interface ApdexOverviewProps {
+  apdex: ApdexScore;
+  settings: ApdexSettings;
+  onEditSettings: () => void;
+}
+
+export const ApdexOverview = ({ apdex, settings, onEditSettings }: ApdexOverviewProps) => {
+  const share = (count: number) => (apdex.total > 0 ? (count / apdex.total) * 100 : 0);
+  const overrides = Object.keys(settings.overrides).length;
+
+  const segments = [
+    { label: 'Satisfied', count: apdex.satisfied, className: 'bg-success' },
+    { label: 'Tolerating', count: apdex.tolerating, className: 'bg-warning' },
+    { label: 'Frustrated', count: apdex.frustrated, className: 'bg-error' }
+  ];
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle className="text-foreground flex items-center gap-3">
+            Apdex
+            <ApdexBadge apdex={apdex} threshold={settings.threshold} />
+          </CardTitle>
+          <Button variant="outline" onClick={onEditSettings} className="flex items-center gap-2">
+            <Settings2 className="w-4 h-4" />
+            Thresholds
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          T = {settings.threshold}ms, tolerating up to {settings.threshold * settings.toleratingMultiplier}ms
+          {overrides > 0 && ` • ${overrides} transaction override${overrides === 1 ? '' : 's'}`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+          {segments.map(segment => (
+            <div key={segment.label} className={segment.className} style={{ width: `${share(segment.count)}%` }} />
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          {segments.map(segment => (
+            <div key={segment.label}>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <span className={`inline-block w-2 h-2 rounded-full ${segment.className}`} />
+                {segment.label}
+              </div>
+              <div className="font-mono text-foreground">
+                {segment.count.toLocaleString()} ({share(segment.count).toFixed(1)}%)
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ApdexSettings } from "@/utils/apdex";
+import { Trash2 } from "lucide-react";
+
+interface ApdexSettingsDialogProps {
+  open: boolean;
+  settings: ApdexSettings;
+  /** Transaction labels that can be given their own threshold */
+  labels: string[];
+  onSave: (settings: ApdexSettings) => void;
+  onCancel: () => void;
+}
+
+export const ApdexSettingsDialog = ({ open, settings, labels, onSave, onCancel }: ApdexSettingsDialogProps) => {
+  const [draft, setDraft] = useState<ApdexSettings>(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const setOverride = (label: string, threshold: number | undefined) => {
+    const overrides = { ...draft.overrides };
+    if (threshold === undefined) delete overrides[label];
+    else overrides[label] = threshold;
+    setDraft({ ...draft, overrides });
+  };
+
+  const availableLabels = labels.filter(label => draft.overrides[label] === undefined);
+  const isValid = draft.threshold > 0 && draft.toleratingMultiplier >= 1
+    && Object.values(draft.overrides).every(threshold => threshold > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Apdex Thresholds</DialogTitle>
+          <DialogDescription>
+            Samples within T are satisfied and within the toleration threshold tolerating. Slower and failed samples are frustrated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="apdex-threshold">Satisfied threshold T (ms)</Label>
+              <Input
+                id="apdex-threshold"
+                type="number"
+                min={1}
+                value={draft.threshold}
+                onChange={(event) => setDraft({ ...draft, threshold: Number(event.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apdex-multiplier">Toleration threshold (× T)</Label>
+              <Input
+                id="apdex-multiplier"
+                type="number"
+                min={1}
+                step={0.5}
+                value={draft.toleratingMultiplier}
+                onChange={(event) => setDraft({ ...draft, toleratingMultiplier: Number(event.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Per-transaction overrides</Label>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {Object.entries(draft.overrides).map(([label, threshold]) => (
+                <div key={label} className="flex items-center gap-2">
+                  <div className="flex-1 truncate text-sm" title={label}>{label}</div>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-28"
+                    value={threshold}
+                    onChange={(event) => setOverride(label, Number(event.target.value))}
+                    aria-label={`T for ${label}`}
+                  />
+                  <span className="text-sm text-muted-foreground">ms</span>
+                  <Button variant="ghost" size="icon" onClick={() => setOverride(label, undefined)} aria-label={`Remove override for ${label}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Select value="" onValueChange={(label) => setOverride(label, draft.threshold)} disabled={availableLabels.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder={availableLabels.length === 0 ? 'Every transaction has an override' : 'Add an override for...'} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableLabels.map(label => (
+                  <SelectItem key={label} value={label}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSave(draft)} disabled={!isValid}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileText } from "lucide-react";
+import { ZipEntry } from "@/utils/archive";
+import { formatBytes } from "@/lib/utils";
+
+interface ArchiveEntryPickerProps {
+  open: boolean;
+  archiveName: string;
+  entries: ZipEntry[];
+  onSelect: (entries: ZipEntry[]) => void;
+  onCancel: () => void;
+}
+
+export const ArchiveEntryPicker = ({ open, archiveName, entries, onSelect, onCancel }: ArchiveEntryPickerProps) => {
+  // Archives with several results usually hold one file per load generator, so merge them all by default
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(entries.map(entry => entry.name)));
+
+  const handleToggle = (name: string, checked: boolean) => {
+    const updated = new Set(selected);
+    if (checked) {
+      updated.add(name);
+    } else {
+      updated.delete(name);
+    }
+    setSelected(updated);
+  };
+
+  const selectedEntries = entries.filter(entry => selected.has(entry.name));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Choose Results Files</DialogTitle>
+          <DialogDescription>
+            {archiveName} contains {entries.length} result files. Select the ones to analyze; several files are merged into one run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-96 overflow-auto">
+          {entries.map(entry => (
+            <label
+              key={entry.name}
+              className="flex items-center justify-between p-3 rounded-lg border border-border hover:bg-muted/50 transition-colors cursor-pointer"
+            >
+              <div className="flex items-center space-x-3 min-w-0">
+                <Checkbox
+                  checked={selected.has(entry.name)}
+                  onCheckedChange={(checked) => handleToggle(entry.name, checked as boolean)}
+                />
+                <FileText className="w-4 h-4 text-primary shrink-0" />
+                <span className="font-mono text-sm truncate" title={entry.name}>{entry.name}</span>
+              </div>
+              <span className="text-sm text-muted-foreground shrink-0 ml-4">{formatBytes(entry.uncompressedSize)}</span>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSelect(selectedEntries)} disabled={selectedEntries.length === 0}>
+            {selectedEntries.length > 1 ? `Merge ${selectedEntries.length} Files` : 'Analyze File'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
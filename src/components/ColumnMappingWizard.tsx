@@ -0,0 +1,238 @@
+import { useState, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Save, Trash2 } from "lucide-react";
+import { ColumnMapping, MappableField, ParseResult } from "@/utils/jtlParser";
+import { detectDelimiter, parseRow, resolveHeader } from "@/utils/jtlReader";
+import {
+  FIELD_LABELS,
+  JMETER_DEFAULT_COLUMNS,
+  MappingProfile,
+  deleteMappingProfile,
+  loadMappingProfiles,
+  saveMappingProfile
+} from "@/utils/mappingProfiles";
+
+interface ColumnMappingWizardProps {
+  open: boolean;
+  fileName: string;
+  debugInfo: ParseResult['debugInfo'];
+  onApply: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const DELIMITERS = [
+  { value: '\t', label: 'Tab' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+const IGNORE = 'ignore';
+const PREVIEW_ROWS = 5;
+
+const splitLines = (lines: string[], delimiter: string) => lines.map(line => parseRow(line, delimiter));
+
+const guessColumns = (lines: string[], delimiter: string, hasHeader: boolean): (MappableField | null)[] => {
+  const rows = splitLines(lines, delimiter);
+  if (hasHeader) {
+    return (rows[0] || []).map(resolveHeader);
+  }
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  if (columnCount === JMETER_DEFAULT_COLUMNS.length) {
+    return [...JMETER_DEFAULT_COLUMNS];
+  }
+  return Array(columnCount).fill(null);
+};
+
+export const ColumnMappingWizard = ({ open, fileName, debugInfo, onApply, onCancel }: ColumnMappingWizardProps) => {
+  const previewLines = debugInfo.previewLines;
+  const initialDelimiter = debugInfo.detectedDelimiter || detectDelimiter(previewLines[0] || '');
+  const [delimiter, setDelimiter] = useState(initialDelimiter);
+  // Header detection failed, so the most likely cause is a file without field names
+  const [hasHeader, setHasHeader] = useState(false);
+  const [columns, setColumns] = useState(() => guessColumns(previewLines, initialDelimiter, false));
+  const [profiles, setProfiles] = useState<MappingProfile[]>(loadMappingProfiles);
+  const [profileName, setProfileName] = useState('');
+
+  const rows = useMemo(() => splitLines(previewLines, delimiter), [previewLines, delimiter]);
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const header = hasHeader ? rows[0] || [] : [];
+  const dataRows = (hasHeader ? rows.slice(1) : rows).slice(0, PREVIEW_ROWS);
+
+  const mapping: ColumnMapping = { delimiter, hasHeader, columns };
+  const mapped = new Set(columns.filter(Boolean));
+  const hasTimeData = mapped.has('timestamp') || mapped.has('elapsed');
+  const hasIdentity = mapped.has('label') || mapped.has('responseCode') || mapped.has('success');
+  const isValid = hasTimeData && hasIdentity;
+
+  // Changing the column layout invalidates the current assignments, so re-guess them
+  const handleDelimiterChange = (value: string) => {
+    setDelimiter(value);
+    setColumns(guessColumns(previewLines, value, hasHeader));
+  };
+
+  const handleHeaderChange = (value: boolean) => {
+    setHasHeader(value);
+    setColumns(guessColumns(previewLines, delimiter, value));
+  };
+
+  const handleColumnChange = (index: number, value: string) => {
+    const updated = [...columns];
+    updated[index] = value === IGNORE ? null : value as MappableField;
+    setColumns(updated);
+  };
+
+  const handleLoadProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setDelimiter(profile.mapping.delimiter);
+    setHasHeader(profile.mapping.hasHeader);
+    setColumns(profile.mapping.columns);
+    setProfileName(profile.name);
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    setProfiles(saveMappingProfile({ name, mapping }));
+  };
+
+  const handleDeleteProfile = () => {
+    setProfiles(deleteMappingProfile(profileName.trim()));
+    setProfileName('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Map Columns</DialogTitle>
+          <DialogDescription>
+            The columns in {fileName} could not be recognized. Choose the delimiter and assign each column to a field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Delimiter</Label>
+              <Select value={delimiter} onValueChange={handleDelimiterChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITERS.map(option => (
+                    <SelectItem key={option.label} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2 md:pt-8">
+              <Switch id="has-header" checked={hasHeader} onCheckedChange={handleHeaderChange} />
+              <Label htmlFor="has-header">First row contains field names</Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Saved profiles</Label>
+              <Select onValueChange={handleLoadProfile} disabled={profiles.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder={profiles.length === 0 ? 'No saved profiles' : 'Load a profile...'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="rounded-lg border overflow-auto max-h-80">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <TableHead key={index} className="min-w-[160px] py-2">
+                      <Select
+                        value={columns[index] ?? IGNORE}
+                        onValueChange={(value) => handleColumnChange(index, value)}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Ignore</SelectItem>
+                          {(Object.keys(FIELD_LABELS) as MappableField[]).map(field => (
+                            <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {hasHeader && (
+                        <div className="mt-1 text-xs font-mono text-muted-foreground truncate" title={header[index]}>
+                          {header[index]}
+                        </div>
+                      )}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dataRows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <TableCell
+                        key={index}
+                        className={`font-mono text-xs max-w-[200px] truncate ${columns[index] ? '' : 'text-muted-foreground/50'}`}
+                        title={row[index]}
+                      >
+                        {row[index]}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {!isValid && (
+            <div className="flex items-center space-x-2 text-sm text-warning">
+              <AlertCircle className="w-4 h-4" />
+              <span>Map at least a Timestamp or Elapsed column, and a Label, Response Code or Success column.</span>
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              placeholder="Profile name"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              className="md:max-w-xs"
+            />
+            <Button variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim() || !isValid}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Profile
+            </Button>
+            {profiles.some(profile => profile.name === profileName.trim()) && (
+              <Button variant="ghost" onClick={handleDeleteProfile}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onApply(mapping)} disabled={!isValid}>Apply Mapping</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ConcurrencyPoint } from "@/utils/jtlParser";
+import { findKneePoint } from "@/utils/concurrency";
+
+interface ConcurrencyChartProps {
+  title: string;
+  points: ConcurrencyPoint[];
+}
+
+export const ConcurrencyChart = ({ title, points }: ConcurrencyChartProps) => {
+  const knee = useMemo(() => findKneePoint(points), [points]);
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle className="text-foreground">{title}</CardTitle>
+        {points.length >= 2 && (
+          <p className="text-sm text-muted-foreground">
+            {knee
+              ? `Throughput stops scaling at about ${Math.round(knee.threads)} threads (${knee.throughput}/s, p95 ${knee.p95ResponseTime}ms)`
+              : 'No saturation point found: throughput grew with the thread count throughout the run'}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {points.length < 2 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            The thread count did not change during this run, so there is nothing to plot against it
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+              <XAxis
+                dataKey="threads"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickFormatter={(threads: number) => Math.round(threads).toString()}
+              />
+              <YAxis yAxisId="throughput" stroke="hsl(var(--muted-foreground))" fontSize={12} tickFormatter={(value: number) => `${value}/s`} />
+              <YAxis yAxisId="p95" orientation="right" stroke="hsl(var(--muted-foreground))" fontSize={12} tickFormatter={(value: number) => `${value}ms`} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                  boxShadow: 'var(--shadow-elegant)'
+                }}
+                labelFormatter={(threads: number) => `${threads} active threads`}
+                formatter={(value: number, name: string) => [name === 'Throughput' ? `${value.toFixed(1)}/s` : `${value}ms`, name]}
+                labelStyle={{ color: 'hsl(var(--foreground))' }}
+              />
+              <Legend />
+              {knee && (
+                <ReferenceLine
+                  yAxisId="throughput"
+                  x={knee.threads}
+                  stroke="hsl(var(--warning))"
+                  strokeDasharray="5 5"
+                  label={{ value: 'Knee', position: 'insideTopLeft', fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                />
+              )}
+              <Line yAxisId="throughput" type="monotone" dataKey="throughput" name="Throughput" stroke="hsl(var(--success))" strokeWidth={2} dot={{ r: 2 }} />
+              <Line yAxisId="p95" type="monotone" dataKey="p95ResponseTime" name="p95 Response Time" stroke="hsl(var(--error))" strokeWidth={2} dot={{ r: 2 }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,27 @@
+import { ArrowDown, ArrowUp, Minus } from "lucide-react";
+import { Delta } from "@/utils/comparison";
+
+interface DeltaBadgeProps {
+  delta: Delta;
+  format: (value: number) => string;
+}
+
+export const DeltaBadge = ({ delta, format }: DeltaBadgeProps) => {
+  const colorClass = delta.direction === 'better'
+    ? 'text-success'
+    : delta.direction === 'worse'
+      ? 'text-error'
+      : 'text-muted-foreground';
+  const sign = delta.absolute > 0 ? '+' : delta.absolute < 0 ? '-' : '';
+  const Icon = delta.absolute > 0 ? ArrowUp : delta.absolute < 0 ? ArrowDown : Minus;
+
+  return (
+    <span className={`inline-flex items-center gap-1 font-mono text-sm ${colorClass}`}>
+      <Icon className="w-3 h-3" />
+      <span>{sign}{format(Math.abs(delta.absolute))}</span>
+      {delta.percent !== null && (
+        <span className="text-xs">({sign}{Math.abs(delta.percent).toFixed(1)}%)</span>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ResponseTimeHistograms } from "@/utils/jtlParser";
+import { DistributionScale, MAX_NINES, cdfPoints, histogramBins, ninesToPercentile } from "@/utils/distribution";
+import { formatPercentile } from "@/utils/percentiles";
+import { ListFilter } from "lucide-react";
+
+export interface DistributionRun {
+  name: string;
+  histograms: ResponseTimeHistograms;
+}
+
+interface DistributionChartProps {
+  title: string;
+  type: 'histogram' | 'cdf';
+  /** One run, or the baseline followed by the candidate; earlier runs are drawn dashed */
+  runs: DistributionRun[];
+}
+
+const ALL_TRANSACTIONS = '__all__';
+
+const SERIES_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--info))',
+  'hsl(var(--warning))',
+  'hsl(var(--error))',
+  'hsl(var(--accent))',
+  'hsl(var(--success))'
+];
+
+const getSeriesColor = (index: number) =>
+  SERIES_COLORS[index] ?? `hsl(${(index * 137) % 360} 70% 50%)`;
+
+const histogramOf = (run: DistributionRun, label: string) =>
+  label === ALL_TRANSACTIONS ? run.histograms.overall : run.histograms.byLabel.get(label);
+
+const labelName = (label: string) => (label === ALL_TRANSACTIONS ? 'All transactions' : label);
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms.toFixed(0)}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+export const DistributionChart = ({ title, type, runs }: DistributionChartProps) => {
+  const [scale, setScale] = useState<DistributionScale>('log');
+  const [selectedLabels, setSelectedLabels] = useState<string[]>([ALL_TRANSACTIONS]);
+
+  const labels = useMemo(() => {
+    const all = new Set<string>();
+    for (const run of runs) for (const label of run.histograms.byLabel.keys()) all.add(label);
+    return Array.from(all).sort();
+  }, [runs]);
+
+  // One series per run and selected transaction, named after both only when it matters
+  const series = useMemo(() => {
+    const visibleLabels = type === 'histogram' ? selectedLabels.slice(0, 1) : selectedLabels;
+    return visibleLabels.flatMap((label, labelIndex) =>
+      runs.map((run, runIndex) => ({
+        key: `s${labelIndex}_${runIndex}`,
+        name: [visibleLabels.length > 1 || runs.length === 1 ? labelName(label) : '', runs.length > 1 ? run.name : '']
+          .filter(Boolean)
+          .join(' • '),
+        histogram: histogramOf(run, label),
+        color: getSeriesColor(labelIndex * runs.length + runIndex),
+        dashed: runIndex < runs.length - 1
+      }))
+    ).filter(entry => entry.histogram && entry.histogram.count > 0);
+  }, [runs, selectedLabels, type]);
+
+  const data = useMemo(() => {
+    if (type === 'cdf') {
+      return cdfPoints(series.map(({ key, histogram }) => ({ key, histogram: histogram! })));
+    }
+    // All runs share the same bins so their bars line up
+    const range = {
+      min: Math.min(...series.map(entry => entry.histogram!.min)),
+      max: Math.max(...series.map(entry => entry.histogram!.max))
+    };
+    const binsBySeries = series.map(entry => histogramBins(entry.histogram!, scale, undefined, range));
+    return (binsBySeries[0] ?? []).map((bin, index) => {
+      const row: Record<string, number | string> = { range: `${formatDuration(bin.from)}–${formatDuration(bin.to)}` };
+      series.forEach((entry, seriesIndex) => {
+        row[entry.key] = runs.length > 1 ? binsBySeries[seriesIndex][index].percent : binsBySeries[seriesIndex][index].count;
+      });
+      return row;
+    });
+  }, [series, scale, type, runs.length]);
+
+  const toggleLabel = (label: string, checked: boolean) => {
+    const next = checked ? [...selectedLabels, label] : selectedLabels.filter(selected => selected !== label);
+    setSelectedLabels(next.length > 0 ? next : [ALL_TRANSACTIONS]);
+  };
+
+  const tooltipStyle = {
+    backgroundColor: 'hsl(var(--card))',
+    border: '1px solid hsl(var(--border))',
+    borderRadius: '8px',
+    boxShadow: 'var(--shadow-elegant)'
+  };
+
+  const nineTicks = Array.from({ length: MAX_NINES + 1 }, (_, nines) => nines);
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle className="text-foreground">{title}</CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            {type === 'histogram' ? (
+              <>
+                <Select value={selectedLabels[0]} onValueChange={(label) => setSelectedLabels([label])}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TRANSACTIONS}>All transactions</SelectItem>
+                    {labels.map(label => (
+                      <SelectItem key={label} value={label}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={scale}
+                  onValueChange={(value) => value && setScale(value as DistributionScale)}
+                >
+                  <ToggleGroupItem value="linear">Linear</ToggleGroupItem>
+                  <ToggleGroupItem value="log">Log</ToggleGroupItem>
+                </ToggleGroup>
+              </>
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="flex items-center gap-2">
+                    <ListFilter className="w-4 h-4" />
+                    Transactions ({selectedLabels.length})
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+                  <DropdownMenuLabel>Overlay transactions</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {[ALL_TRANSACTIONS, ...labels].map(label => (
+                    <DropdownMenuCheckboxItem
+                      key={label}
+                      checked={selectedLabels.includes(label)}
+                      onCheckedChange={(checked) => toggleLabel(label, checked)}
+                      onSelect={(event) => event.preventDefault()}
+                    >
+                      {labelName(label)}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={300}>
+          {type === 'cdf' ? (
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+              <XAxis
+                dataKey="nines"
+                type="number"
+                domain={[0, MAX_NINES]}
+                ticks={nineTicks}
+                tickFormatter={(nines: number) => (nines === 0 ? 'Min' : formatPercentile(Number(ninesToPercentile(nines).toFixed(2))))}
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+              />
+              <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} tickFormatter={formatDuration} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(nines: number) => `${formatPercentile(Number(ninesToPercentile(nines).toFixed(2)))} percentile`}
+                formatter={(value: number, name: string) => [formatDuration(value), name]}
+                labelStyle={{ color: 'hsl(var(--foreground))' }}
+              />
+              {series.map(entry => (
+                <Line
+                  key={entry.key}
+                  type="monotone"
+                  dataKey={entry.key}
+                  name={entry.name}
+                  stroke={entry.color}
+                  strokeWidth={entry.dashed ? 1.5 : 2}
+                  strokeDasharray={entry.dashed ? '5 5' : undefined}
+                  dot={false}
+                />
+              ))}
+              {series.length > 1 && <Legend />}
+            </LineChart>
+          ) : (
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+              <XAxis dataKey="range" stroke="hsl(var(--muted-foreground))" fontSize={12} minTickGap={16} />
+              <YAxis
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickFormatter={(value: number) => (runs.length > 1 ? `${value.toFixed(0)}%` : value.toLocaleString())}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => [
+                  runs.length > 1 ? `${value.toFixed(2)}%` : `${value.toLocaleString()} samples`,
+                  name
+                ]}
+                labelStyle={{ color: 'hsl(var(--foreground))' }}
+              />
+              {series.map(entry => (
+                <Bar
+                  key={entry.key}
+                  dataKey={entry.key}
+                  name={entry.name}
+                  fill={entry.color}
+                  fillOpacity={entry.dashed ? 0.5 : 1}
+                  radius={[4, 4, 0, 0]}
+                />
+              ))}
+              {series.length > 1 && <Legend />}
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,11 +1,20 @@
 import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { PerformanceMetrics, TransactionSummary } from "@/utils/jtlParser";
+import { SlaResult, describeSlaRule, slaPassed } from "@/utils/slaRules";
+import { TRANSACTION_COLUMNS, formatTransactionValue } from "@/utils/transactionColumns";
+import { formatPercentile, getPercentileValue } from "@/utils/percentiles";
 
 interface ExportData {
   metrics: any;
   chartData: any[];
-  transactionBreakdown: any[];
+  transactionBreakdown: TransactionSummary[];
+  slaResults?: SlaResult[];
+  /** Percentiles to report; their values come from `metrics.percentiles` */
+  percentiles?: number[];
+  /** Metrics over the detected steady state, reported after the full-run metrics */
+  steadyState?: { metrics: PerformanceMetrics; description: string } | null;
   fileName: string;
 }
 
@@ -48,6 +57,8 @@ export const ExportButton = ({ data }: ExportButtonProps) => {
         }
         .metric-title { color: #64748b; font-size: 0.875rem; font-weight: 500; }
         .metric-value { font-size: 1.875rem; font-weight: bold; color: #1e293b; margin-top: 0.5rem; }
+        .metrics-note { color: #64748b; font-size: 0.875rem; margin: -1rem 0 2rem; }
+        .section-note { color: #64748b; font-size: 0.875rem; margin: -0.5rem 0 1rem; }
         .chart-section {
           background: white;
           padding: 2rem;
@@ -66,6 +77,8 @@ export const ExportButton = ({ data }: ExportButtonProps) => {
           text-align: left;
           border-bottom: 1px solid #e2e8f0;
         }
+        .transaction-table .numeric { text-align: right; white-space: nowrap; }
+        .table-scroll { overflow-x: auto; }
         .transaction-table th {
           background: #f8fafc;
           font-weight: 600;
@@ -81,6 +94,10 @@ export const ExportButton = ({ data }: ExportButtonProps) => {
         }
         h1 { font-size: 2rem; margin-bottom: 0.5rem; }
         h2 { color: #1e293b; margin-bottom: 1rem; font-size: 1.5rem; }
+        .sla-status { font-weight: 600; }
+        .sla-pass { color: #10b981; }
+        .sla-fail { color: #ef4444; }
+        .sla-no-data { color: #64748b; }
         .footer {
           text-align: center;
           color: #64748b;
@@ -97,6 +114,45 @@ export const ExportButton = ({ data }: ExportButtonProps) => {
       return `${(ms / 1000).toFixed(2)}s`;
     };
 
+    // Rule descriptions contain comparison operators and user-typed patterns
+    const escapeHTML = (text: string) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+    const metricCards = (metrics: PerformanceMetrics) => `
+      <div class="metrics-grid">
+        <div class="metric-card">
+          <div class="metric-title">Average Response Time</div>
+          <div class="metric-value">${formatDuration(metrics.avgResponseTime)}</div>
+        </div>
+        <div class="metric-card">
+          <div class="metric-title">Peak Response Time</div>
+          <div class="metric-value">${formatDuration(metrics.maxResponseTime)}</div>
+        </div>
+        ${(data.percentiles ?? []).filter(percentile => getPercentileValue(metrics, percentile) !== undefined).map(percentile => `
+        <div class="metric-card">
+          <div class="metric-title">${formatPercentile(percentile)} Percentile</div>
+          <div class="metric-value">${formatDuration(getPercentileValue(metrics, percentile)!)}</div>
+        </div>
+        `).join('')}
+        <div class="metric-card">
+          <div class="metric-title">Throughput</div>
+          <div class="metric-value">${metrics.throughput.toFixed(1)}/s</div>
+        </div>
+        <div class="metric-card">
+          <div class="metric-title">Error Rate</div>
+          <div class="metric-value">${metrics.errorRate.toFixed(2)}%</div>
+        </div>
+        <div class="metric-card">
+          <div class="metric-title">Total Requests</div>
+          <div class="metric-value">${metrics.totalRequests.toLocaleString()}</div>
+        </div>
+        <div class="metric-card">
+          <div class="metric-title">Successful Requests</div>
+          <div class="metric-value">${metrics.successfulRequests.toLocaleString()}</div>
+        </div>
+      </div>
+    `;
+
     const html = `
       <!DOCTYPE html>
       <html lang="en">
@@ -119,58 +175,65 @@ export const ExportButton = ({ data }: ExportButtonProps) => {
           </div>
 
           <h2>Performance Metrics Overview</h2>
-          <div class="metrics-grid">
-            <div class="metric-card">
-              <div class="metric-title">Average Response Time</div>
-              <div class="metric-value">${formatDuration(data.metrics.avgResponseTime)}</div>
-            </div>
-            <div class="metric-card">
-              <div class="metric-title">Peak Response Time</div>
-              <div class="metric-value">${formatDuration(data.metrics.maxResponseTime)}</div>
-            </div>
-            <div class="metric-card">
-              <div class="metric-title">Throughput</div>
-              <div class="metric-value">${data.metrics.throughput.toFixed(1)}/s</div>
-            </div>
-            <div class="metric-card">
-              <div class="metric-title">Error Rate</div>
-              <div class="metric-value">${data.metrics.errorRate.toFixed(2)}%</div>
-            </div>
-            <div class="metric-card">
-              <div class="metric-title">Total Requests</div>
-              <div class="metric-value">${data.metrics.totalRequests.toLocaleString()}</div>
-            </div>
-            <div class="metric-card">
-              <div class="metric-title">Successful Requests</div>
-              <div class="metric-value">${data.metrics.successfulRequests.toLocaleString()}</div>
-            </div>
-          </div>
+          ${metricCards(data.metrics)}
+          ${data.percentiles && data.percentiles.length > 0 ? `
+          <p class="metrics-note">Percentiles are exact below 256ms and within about 0.4% of the true response time above.</p>
+          ` : ''}
 
+          ${data.steadyState ? `
+          <h2>Steady State Metrics</h2>
+          <p class="section-note">${escapeHTML(data.steadyState.description)}</p>
+          ${metricCards(data.steadyState.metrics)}
+          ` : ''}
+
+          ${data.slaResults && data.slaResults.length > 0 ? `
           <div class="chart-section">
-            <h2>Transaction Breakdown</h2>
+            <h2>SLA Scorecard: <span class="${slaPassed(data.slaResults) ? 'sla-pass' : 'sla-fail'}">${slaPassed(data.slaResults) ? 'Passed' : 'Failed'}</span></h2>
             <table class="transaction-table">
               <thead>
                 <tr>
-                  <th>Transaction</th>
-                  <th>Count</th>
-                  <th>Avg Response Time</th>
-                  <th>Error Rate</th>
-                  <th>Errors</th>
+                  <th>Status</th>
+                  <th>Rule</th>
+                  <th>Result</th>
                 </tr>
               </thead>
               <tbody>
-                ${data.transactionBreakdown.map(tx => `
+                ${data.slaResults.map(result => `
                   <tr>
-                    <td>${tx.label}</td>
-                    <td>${tx.count.toLocaleString()}</td>
-                    <td>${formatDuration(tx.avgResponseTime)}</td>
-                    <td style="color: ${tx.errorRate > 5 ? '#ef4444' : tx.errorRate > 1 ? '#f59e0b' : '#10b981'}">${tx.errorRate.toFixed(2)}%</td>
-                    <td>${tx.errorCount}</td>
+                    <td class="sla-status sla-${result.status}">${result.status === 'no-data' ? 'No data' : result.status === 'pass' ? 'Pass' : 'Fail'}</td>
+                    <td>${escapeHTML(describeSlaRule(result.rule))}</td>
+                    <td>${escapeHTML(result.detail)}</td>
                   </tr>
                 `).join('')}
               </tbody>
             </table>
           </div>
+          ` : ''}
+
+          <div class="chart-section">
+            <h2>Transaction Breakdown</h2>
+            <div class="table-scroll">
+              <table class="transaction-table">
+                <thead>
+                  <tr>
+                    <th>Transaction</th>
+                    ${TRANSACTION_COLUMNS.map(column => `<th class="numeric">${column.title}</th>`).join('')}
+                  </tr>
+                </thead>
+                <tbody>
+                  ${data.transactionBreakdown.map(tx => `
+                    <tr>
+                      <td>${escapeHTML(tx.label)}</td>
+                      ${TRANSACTION_COLUMNS.map(column => column.id === 'errorRate'
+                        ? `<td class="numeric" style="color: ${tx.errorRate > 5 ? '#ef4444' : tx.errorRate > 1 ? '#f59e0b' : '#10b981'}">${formatTransactionValue(column, tx)}</td>`
+                        : `<td class="numeric">${formatTransactionValue(column, tx)}</td>`
+                      ).join('')}
+                    </tr>
+                  `).join('')}
+                </tbody>
+              </table>
+            </div>
+          </div>
 
           <div class="footer">
             <p>Report generated by JMeter Performance Analyzer</p>
@@ -3,7 +3,7 @@ import { Upload, FileText, AlertCircle } from "lucide-react";
 import { Card } from "@/components/ui/card";
 
 interface FileDropZoneProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload: (files: File[]) => void;
 }
 
 export const FileDropZone = ({ onFileUpload }: FileDropZoneProps) => {
@@ -15,12 +15,12 @@ export const FileDropZone = ({ onFileUpload }: FileDropZoneProps) => {
       setIsDragOver(false);
       
       const files = Array.from(e.dataTransfer.files);
-      const jtlFile = files.find(file => 
-        file.name.endsWith('.jtl') || file.type === 'text/plain'
+      const jtlFiles = files.filter(file => 
+        /\.(jtl|xml|csv|gz|zip)$/i.test(file.name) || file.type === 'text/plain' || file.type === 'text/xml'
       );
       
-      if (jtlFile) {
-        onFileUpload(jtlFile);
+      if (jtlFiles.length > 0) {
+        onFileUpload(jtlFiles);
       }
     },
     [onFileUpload]
@@ -38,9 +38,9 @@ export const FileDropZone = ({ onFileUpload }: FileDropZoneProps) => {
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-        onFileUpload(file);
+      const files = Array.from(e.target.files ?? []);
+      if (files.length > 0) {
+        onFileUpload(files);
       }
     },
     [onFileUpload]
@@ -66,23 +66,24 @@ export const FileDropZone = ({ onFileUpload }: FileDropZoneProps) => {
         
         <div className="space-y-2">
           <h3 className="text-lg font-semibold">
-            Drop your JMeter JTL file here
+            Drop your JMeter JTL files here
           </h3>
           <p className="text-muted-foreground">
-            Or click to browse and select your performance test results
+            Or click to browse. Select several files to merge results from distributed load generators
           </p>
         </div>
 
         <input
           type="file"
-          accept=".jtl,text/plain"
+          accept=".jtl,.xml,.csv,.gz,.zip,text/plain,text/xml"
+          multiple
           onChange={handleFileInput}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         />
 
         <div className="flex items-center space-x-2 text-sm text-muted-foreground">
           <FileText className="w-4 h-4" />
-          <span>Supports .jtl files</span>
+          <span>Supports .jtl files in CSV or XML format, plain or as .gz / .zip</span>
         </div>
 
         <div className="flex items-center space-x-2 text-xs text-warning">
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ValueFilterPopover } from "@/components/ValueFilterPopover";
+import { SampleFilter, countSampleFilters } from "@/utils/recordFilter";
+import { FilterPreset, deleteFilterPreset, loadFilterPresets, saveFilterPreset } from "@/utils/filterPresets";
+import { Bookmark, Filter, Save, Trash2, X } from "lucide-react";
+
+interface FilterBarProps {
+  filter: SampleFilter;
+  onChange: (filter: SampleFilter) => void;
+  /** Values present in the run for each list filter */
+  values: {
+    labels: string[];
+    responseCodes: string[];
+    threadGroups: string[];
+  };
+}
+
+const ANY_STATUS = 'any';
+
+const parseBound = (text: string) => {
+  const value = Number(text);
+  return text.trim() === '' || !Number.isFinite(value) ? undefined : value;
+};
+
+export const FilterBar = ({ filter, onChange, values }: FilterBarProps) => {
+  const [presets, setPresets] = useState<FilterPreset[]>(loadFilterPresets);
+  const [presetName, setPresetName] = useState('');
+  const activeCount = countSampleFilters(filter);
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(saveFilterPreset({ name, filter }));
+  };
+
+  // Bounds are applied on blur or Enter rather than on every keystroke
+  const elapsedInput = (bound: 'minElapsed' | 'maxElapsed', placeholder: string) => (
+    <Input
+      key={`${bound}-${filter[bound] ?? ''}`}
+      type="number"
+      min={0}
+      placeholder={placeholder}
+      defaultValue={filter[bound] ?? ''}
+      className="h-9 w-24"
+      onBlur={(event) => {
+        const value = parseBound(event.target.value);
+        if (value !== filter[bound]) onChange({ ...filter, [bound]: value });
+      }}
+      onKeyDown={(event) => event.key === 'Enter' && event.currentTarget.blur()}
+    />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Filter className="w-4 h-4 text-muted-foreground" />
+      <span className="text-sm font-medium text-foreground">Filters</span>
+
+      <ValueFilterPopover
+        title="Transactions"
+        values={values.labels}
+        filter={filter.labels}
+        onChange={(labels) => onChange({ ...filter, labels })}
+      />
+      <ValueFilterPopover
+        title="Response codes"
+        values={values.responseCodes}
+        filter={filter.responseCodes}
+        onChange={(responseCodes) => onChange({ ...filter, responseCodes })}
+      />
+      <ValueFilterPopover
+        title="Thread groups"
+        values={values.threadGroups}
+        filter={filter.threadGroups}
+        onChange={(threadGroups) => onChange({ ...filter, threadGroups })}
+      />
+
+      <Select
+        value={filter.success === undefined ? ANY_STATUS : String(filter.success)}
+        onValueChange={(value) => onChange({ ...filter, success: value === ANY_STATUS ? undefined : value === 'true' })}
+      >
+        <SelectTrigger className="h-9 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY_STATUS}>Any status</SelectItem>
+          <SelectItem value="true">Successful only</SelectItem>
+          <SelectItem value="false">Failed only</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        {elapsedInput('minElapsed', 'Min ms')}
+        <span>to</span>
+        {elapsedInput('maxElapsed', 'Max ms')}
+      </div>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <Bookmark className="w-4 h-4" />
+            Presets
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 space-y-3">
+          {presets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved presets</p>
+          ) : (
+            <div className="space-y-1">
+              {presets.map(preset => (
+                <div key={preset.name} className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="flex-1 justify-start truncate"
+                    onClick={() => {
+                      onChange(preset.filter);
+                      setPresetName(preset.name);
+                    }}
+                  >
+                    {preset.name}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setPresets(deleteFilterPreset(preset.name))}
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Preset name"
+              value={presetName}
+              onChange={(event) => setPresetName(event.target.value)}
+              className="h-9"
+            />
+            <Button variant="outline" size="sm" onClick={handleSavePreset} disabled={!presetName.trim() || activeCount === 0}>
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange({})} className="flex items-center gap-1">
+          <X className="w-4 h-4" />
+          Clear filters ({activeCount})
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponseTimeHeatmap, SampleQuery } from "@/utils/jtlParser";
+import { formatBand } from "@/utils/heatmap";
+import { RunPhases, overlappingBuckets, rampSpans } from "@/utils/steadyState";
+
+interface HeatmapChartProps {
+  title: string;
+  heatmap: ResponseTimeHeatmap;
+  labels: string[];
+  /** Transaction shown, or undefined for the whole run */
+  label?: string;
+  onLabelChange: (label: string | undefined) => void;
+  /** Called with the query for the samples in a clicked cell */
+  onCellClick: (query: SampleQuery) => void;
+  /** Shades the ramp-up and ramp-down of the run */
+  phases?: RunPhases | null;
+}
+
+const ALL_TRANSACTIONS = '__all__';
+const CHART_HEIGHT = 300;
+const X_LABELS = 5;
+
+interface HoveredCell {
+  column: number;
+  band: number;
+}
+
+export const HeatmapChart = ({ title, heatmap, labels, label, onLabelChange, onCellClick, phases }: HeatmapChartProps) => {
+  const [hovered, setHovered] = useState<HoveredCell | null>(null);
+  const { columns, bandEdges, maxCount } = heatmap;
+  const bands = bandEdges.length - 1;
+
+  // Counts span orders of magnitude, so shading follows their logarithm
+  const cellColor = (count: number) => {
+    const intensity = maxCount > 0 ? Math.log(count + 1) / Math.log(maxCount + 1) : 0;
+    return `hsl(var(--primary) / ${(0.15 + 0.85 * intensity).toFixed(3)})`;
+  };
+
+  const queryFor = (column: number, band: number): SampleQuery => ({
+    from: columns[column].start,
+    to: columns[column].start + heatmap.bucketSize * 1000,
+    minElapsed: bandEdges[band],
+    maxElapsed: bandEdges[band + 1],
+    label
+  });
+
+  const xLabels = columns.length <= X_LABELS
+    ? columns.map((_, index) => index)
+    : Array.from({ length: X_LABELS }, (_, index) => Math.round((index * (columns.length - 1)) / (X_LABELS - 1)));
+
+  const rampColumns = phases
+    ? rampSpans(phases).map(({ span }) => overlappingBuckets(columns.map(column => column.start), span)).filter(Boolean)
+    : [];
+
+  const hoveredCount = hovered ? columns[hovered.column].counts[hovered.band] : 0;
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle className="text-foreground">{title}</CardTitle>
+          <Select
+            value={label ?? ALL_TRANSACTIONS}
+            onValueChange={(value) => onLabelChange(value === ALL_TRANSACTIONS ? undefined : value)}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TRANSACTIONS}>All transactions</SelectItem>
+              {labels.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {columns.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No samples to plot</div>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              {/* Band labels, slowest at the top */}
+              <div className="flex flex-col-reverse justify-between text-xs text-muted-foreground text-right w-24 shrink-0" style={{ height: CHART_HEIGHT }}>
+                {Array.from({ length: bands }, (_, band) => (
+                  <div key={band} className="flex-1 flex items-center justify-end whitespace-nowrap">
+                    {formatBand(bandEdges[band], bandEdges[band + 1])}
+                  </div>
+                ))}
+              </div>
+              <div className="relative flex-1" onMouseLeave={() => setHovered(null)}>
+                <svg
+                  width="100%"
+                  height={CHART_HEIGHT}
+                  viewBox={`0 0 ${columns.length} ${bands}`}
+                  preserveAspectRatio="none"
+                  className="block rounded border bg-muted/20"
+                >
+                  {columns.map((column, columnIndex) =>
+                    column.counts.map((count, band) => count > 0 && (
+                      <rect
+                        key={`${columnIndex}-${band}`}
+                        x={columnIndex}
+                        y={bands - 1 - band}
+                        width={1}
+                        height={1}
+                        fill={cellColor(count)}
+                        stroke={hovered?.column === columnIndex && hovered.band === band ? 'hsl(var(--foreground))' : 'none'}
+                        strokeWidth={0.05}
+                        className="cursor-pointer"
+                        onMouseEnter={() => setHovered({ column: columnIndex, band })}
+                        onClick={() => onCellClick(queryFor(columnIndex, band))}
+                      />
+                    ))
+                  )}
+                  {rampColumns.map(([first, last]) => (
+                    <rect
+                      key={first}
+                      x={first}
+                      y={0}
+                      width={last - first + 1}
+                      height={bands}
+                      fill="hsl(var(--muted-foreground) / 0.15)"
+                      pointerEvents="none"
+                    />
+                  ))}
+                </svg>
+                {hovered && (
+                  <div
+                    className="absolute z-10 pointer-events-none rounded-lg border bg-card px-3 py-2 text-xs shadow-elegant whitespace-nowrap"
+                    style={{
+                      left: `${((hovered.column + 0.5) / columns.length) * 100}%`,
+                      top: `${((bands - hovered.band) / bands) * 100}%`,
+                      transform: `translate(${hovered.column > columns.length / 2 ? '-100%' : '0'}, 4px)`
+                    }}
+                  >
+                    <div className="font-medium text-foreground">{columns[hovered.column].timestamp}</div>
+                    <div className="text-muted-foreground">{formatBand(bandEdges[hovered.band], bandEdges[hovered.band + 1])}</div>
+                    <div className="text-foreground">
+                      {hoveredCount.toLocaleString()} sample{hoveredCount === 1 ? '' : 's'} • click to list
+                    </div>
+                  </div>
+                )}
+                <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                  {xLabels.map(index => (
+                    <span key={index}>{columns[index].timestamp}</span>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+              <span>1</span>
+              <div
+                className="h-2 w-32 rounded"
+                style={{ background: `linear-gradient(to right, ${cellColor(1)}, ${cellColor(maxCount)})` }}
+              />
+              <span>{maxCount.toLocaleString()} samples per cell</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,111 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SourceSummary, SourceTimelinePoint } from "@/utils/jtlParser";
+
+interface InjectorComparisonProps {
+  summaries: SourceSummary[];
+  timeline: SourceTimelinePoint[];
+}
+
+const INJECTOR_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--info))',
+  'hsl(var(--warning))',
+  'hsl(var(--error))',
+  'hsl(var(--accent))',
+  'hsl(var(--success))'
+];
+
+// Spread any further injectors around the color wheel
+const getInjectorColor = (index: number) =>
+  INJECTOR_COLORS[index] ?? `hsl(${(index * 137) % 360} 70% 50%)`;
+
+export const InjectorComparison = ({ summaries, timeline }: InjectorComparisonProps) => {
+  const formatDuration = (ms: number) => {
+    if (ms < 1000) return `${ms.toFixed(0)}ms`;
+    return `${(ms / 1000).toFixed(2)}s`;
+  };
+
+  // The slowest and most error-prone injectors are the usual suspects
+  const slowest = Math.max(...summaries.map(summary => summary.avgResponseTime));
+  const mostErrors = Math.max(...summaries.map(summary => summary.errorRate));
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle className="text-foreground">Injector Comparison</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={timeline}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+            <XAxis dataKey="timestamp" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                boxShadow: 'var(--shadow-elegant)'
+              }}
+              formatter={(value: number, name: string) => [`${value.toFixed(0)}ms`, name]}
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+            />
+            <Legend />
+            {summaries.map((summary, index) => (
+              <Line
+                key={summary.source}
+                type="monotone"
+                dataKey={summary.source}
+                stroke={getInjectorColor(index)}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+
+        <div className="rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Injector</TableHead>
+                <TableHead className="font-semibold text-right">Requests</TableHead>
+                <TableHead className="font-semibold text-right">Avg Response Time</TableHead>
+                <TableHead className="font-semibold text-right">95th Percentile</TableHead>
+                <TableHead className="font-semibold text-right">Throughput</TableHead>
+                <TableHead className="font-semibold text-right">Error Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summaries.map((summary, index) => (
+                <TableRow key={summary.source} className="hover:bg-muted/30 transition-colors">
+                  <TableCell className="font-medium max-w-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: getInjectorColor(index) }} />
+                      <span className="truncate" title={summary.source}>{summary.source}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{summary.count.toLocaleString()}</TableCell>
+                  <TableCell className={`text-right font-mono ${summaries.length > 1 && summary.avgResponseTime === slowest ? 'text-warning font-semibold' : ''}`}>
+                    {formatDuration(summary.avgResponseTime)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatDuration(summary.p95ResponseTime)}</TableCell>
+                  <TableCell className="text-right font-mono">{summary.throughput.toFixed(1)}/s</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={summary.errorRate > 0 && summary.errorRate === mostErrors ? "destructive" : "secondary"}>
+                      {summary.errorRate.toFixed(2)}%
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
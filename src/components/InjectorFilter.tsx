@@ -0,0 +1,32 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Server } from "lucide-react";
+
+interface InjectorFilterProps {
+  sources: string[];
+  selected?: string[];
+  onChange: (sources?: string[]) => void;
+}
+
+const ALL = 'all';
+
+export const InjectorFilter = ({ sources, selected, onChange }: InjectorFilterProps) => {
+  const value = selected && selected.length === 1 ? selected[0] : ALL;
+
+  return (
+    <div className="flex items-center gap-3">
+      <Server className="w-4 h-4 text-muted-foreground" />
+      <span className="text-sm font-medium text-foreground">Injector</span>
+      <Select value={value} onValueChange={(source) => onChange(source === ALL ? undefined : [source])}>
+        <SelectTrigger className="w-72">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All injectors ({sources.length})</SelectItem>
+          {sources.map(source => (
+            <SelectItem key={source} value={source}>{source}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DeltaBadge } from "@/components/DeltaBadge";
+import { MetricDelta, formatMetric } from "@/utils/comparison";
+
+interface MetricsComparisonProps {
+  deltas: MetricDelta[];
+  title?: string;
+  /** Column headings for the two sides being compared */
+  baselineName?: string;
+  candidateName?: string;
+}
+
+export const MetricsComparison = ({
+  deltas,
+  title = 'Metrics Comparison',
+  baselineName = 'Baseline',
+  candidateName = 'Candidate'
+}: MetricsComparisonProps) => {
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle className="text-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Metric</TableHead>
+                <TableHead className="font-semibold text-right">{baselineName}</TableHead>
+                <TableHead className="font-semibold text-right">{candidateName}</TableHead>
+                <TableHead className="font-semibold text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deltas.map(delta => (
+                <TableRow key={delta.key} className="hover:bg-muted/30 transition-colors">
+                  <TableCell className="font-medium">{delta.label}</TableCell>
+                  <TableCell className="text-right font-mono">{formatMetric(delta.baseline, delta.format)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatMetric(delta.candidate, delta.format)}</TableCell>
+                  <TableCell className="text-right">
+                    <DeltaBadge delta={delta} format={(value) => formatMetric(value, delta.format)} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,4 +1,5 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatPercentile, getPercentileValue } from "@/utils/percentiles";
 import { TrendingUp, TrendingDown, Clock, Zap, AlertTriangle, CheckCircle, Timer, Activity, Gauge } from "lucide-react";
 
 interface MetricCardProps {
@@ -60,15 +61,21 @@ interface PerformanceMetrics {
   transactionsPerSecond: number;
   testDuration: number;
   p90ResponseTime: number;
+  p95ResponseTime: number;
   p99ResponseTime: number;
+  percentiles?: Record<string, number>;
   avgConnectTime: number;
 }
 
 interface MetricsOverviewProps {
   metrics: PerformanceMetrics;
+  /** Percentiles to show a card for, lowest first */
+  percentiles: number[];
+  /** Metrics over the steady state alone, shown under the full-run values */
+  steadyState?: { metrics: PerformanceMetrics; description: string } | null;
 }
 
-export const MetricsOverview = ({ metrics }: MetricsOverviewProps) => {
+export const MetricsOverview = ({ metrics, percentiles, steadyState }: MetricsOverviewProps) => {
   const formatDuration = (ms: number) => {
     if (ms < 1000) return `${ms.toFixed(0)}ms`;
     return `${(ms / 1000).toFixed(2)}s`;
@@ -80,63 +87,77 @@ export const MetricsOverview = ({ metrics }: MetricsOverviewProps) => {
     return 'error';
   };
 
+  const steady = steadyState?.metrics;
+  const steadyValue = (format: (metrics: PerformanceMetrics) => string) =>
+    steady ? `Steady state: ${format(steady)}` : undefined;
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-      <MetricCard
-        title="Average Response Time"
-        value={formatDuration(metrics.avgResponseTime)}
-        icon={<Clock className="w-4 h-4" />}
-        color="info"
-      />
-      
-      <MetricCard
-        title="Peak Response Time"
-        value={formatDuration(metrics.maxResponseTime)}
-        icon={<TrendingUp className="w-4 h-4" />}
-        color="warning"
-      />
+    <div className="space-y-3">
+      {steadyState && <p className="text-sm text-muted-foreground">{steadyState.description}</p>}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <MetricCard
+          title="Average Response Time"
+          value={formatDuration(metrics.avgResponseTime)}
+          change={steadyValue(m => formatDuration(m.avgResponseTime))}
+          icon={<Clock className="w-4 h-4" />}
+          color="info"
+        />
       
-      <MetricCard
-        title="Throughput"
-        value={`${metrics.throughput.toFixed(1)}/s`}
-        icon={<Zap className="w-4 h-4" />}
-        color="success"
-      />
+        <MetricCard
+          title="Peak Response Time"
+          value={formatDuration(metrics.maxResponseTime)}
+          change={steadyValue(m => formatDuration(m.maxResponseTime))}
+          icon={<TrendingUp className="w-4 h-4" />}
+          color="warning"
+        />
       
-      <MetricCard
-        title="Transactions Per Second"
-        value={`${metrics.transactionsPerSecond.toFixed(1)} TPS`}
-        icon={<Activity className="w-4 h-4" />}
-        color="success"
-      />
+        <MetricCard
+          title="Throughput"
+          value={`${metrics.throughput.toFixed(1)}/s`}
+          change={steadyValue(m => `${m.throughput.toFixed(1)}/s`)}
+          icon={<Zap className="w-4 h-4" />}
+          color="success"
+        />
       
-      <MetricCard
-        title="Error Rate"
-        value={`${metrics.errorRate.toFixed(2)}%`}
-        icon={<AlertTriangle className="w-4 h-4" />}
-        color={getErrorRateColor(metrics.errorRate)}
-      />
+        <MetricCard
+          title="Transactions Per Second"
+          value={`${metrics.transactionsPerSecond.toFixed(1)} TPS`}
+          change={steadyValue(m => `${m.transactionsPerSecond.toFixed(1)} TPS`)}
+          icon={<Activity className="w-4 h-4" />}
+          color="success"
+        />
       
-      <MetricCard
-        title="90th Percentile"
-        value={formatDuration(metrics.p90ResponseTime)}
-        icon={<Gauge className="w-4 h-4" />}
-        color="warning"
-      />
+        <MetricCard
+          title="Error Rate"
+          value={`${metrics.errorRate.toFixed(2)}%`}
+          change={steadyValue(m => `${m.errorRate.toFixed(2)}%`)}
+          icon={<AlertTriangle className="w-4 h-4" />}
+          color={getErrorRateColor(metrics.errorRate)}
+        />
       
-      <MetricCard
-        title="99th Percentile"
-        value={formatDuration(metrics.p99ResponseTime)}
-        icon={<Gauge className="w-4 h-4" />}
-        color="error"
-      />
+        {percentiles.map((percentile, index) => {
+          const value = getPercentileValue(metrics, percentile);
+          const steadyPercentile = steady && getPercentileValue(steady, percentile);
+          return (
+            <MetricCard
+              key={percentile}
+              title={`${formatPercentile(percentile)} Percentile`}
+              value={value === undefined ? '—' : formatDuration(value)}
+              change={steadyPercentile === undefined ? undefined : steadyValue(() => formatDuration(steadyPercentile))}
+              icon={<Gauge className="w-4 h-4" />}
+              color={index === percentiles.length - 1 ? 'error' : 'warning'}
+            />
+          );
+        })}
       
-      <MetricCard
-        title="Test Duration"
-        value={`${metrics.testDuration.toFixed(1)}s`}
-        icon={<Timer className="w-4 h-4" />}
-        color="info"
-      />
+        <MetricCard
+          title="Test Duration"
+          value={`${metrics.testDuration.toFixed(1)}s`}
+          change={steadyValue(m => `${m.testDuration.toFixed(1)}s`)}
+          icon={<Timer className="w-4 h-4" />}
+          color="info"
+        />
+      </div>
     </div>
   );
 };
\ No newline at end of file
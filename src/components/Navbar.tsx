@@ -1,18 +1,27 @@
 import { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
-import { BarChart3, Menu, X, RotateCcw } from "lucide-react";
+import { BarChart3, Menu, X, RotateCcw, LayoutDashboard, GitCompare, History, TrendingUp, Rows3 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { ConfirmationDialog } from "@/components/ConfirmationDialog";
 import { useApp } from "@/contexts/AppContext";
 import { cn } from "@/lib/utils";
 
+const NAV_LINKS = [
+  { to: '/', label: 'Dashboard', icon: LayoutDashboard, requiresData: true },
+  { to: '/compare', label: 'Compare', icon: GitCompare, requiresData: true },
+  { to: '/samples', label: 'Samples', icon: Rows3, requiresData: true },
+  { to: '/history', label: 'History', icon: History, requiresData: false },
+  { to: '/trends', label: 'Trends', icon: TrendingUp, requiresData: false }
+];
+
 export const Navbar = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const location = useLocation();
   const { parser, fileName, showResetConfirmation, setShowResetConfirmation, handleReset } = useApp();
 
   const hasData = !!parser;
+  const visibleLinks = NAV_LINKS.filter(link => hasData || !link.requiresData);
 
   return (
     <nav className="bg-background border-b border-border sticky top-0 z-50 backdrop-blur-sm bg-background/80">
@@ -28,6 +37,21 @@ export const Navbar = () => {
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center space-x-4">
+            {visibleLinks.map(link => (
+              <Link
+                key={link.to}
+                to={link.to}
+                className={cn(
+                  "flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                  location.pathname === link.to
+                    ? "bg-primary/10 text-primary"
+                    : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                )}
+              >
+                <link.icon className="w-4 h-4" />
+                <span>{link.label}</span>
+              </Link>
+            ))}
             {hasData && (
               <Button
                 variant="outline"
@@ -70,20 +94,38 @@ export const Navbar = () => {
         </div>
 
         {/* Mobile Navigation */}
-        {isMobileMenuOpen && hasData && (
+        {isMobileMenuOpen && (
           <div className="md:hidden py-4 border-t border-border">
             <div className="space-y-2">
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setShowResetConfirmation(true);
-                  setIsMobileMenuOpen(false);
-                }}
-                className="w-full flex items-center justify-center space-x-2"
-              >
-                <RotateCcw className="w-4 h-4" />
-                <span>Reset</span>
-              </Button>
+              {visibleLinks.map(link => (
+                <Link
+                  key={link.to}
+                  to={link.to}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                  className={cn(
+                    "flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                    location.pathname === link.to
+                      ? "bg-primary/10 text-primary"
+                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                  )}
+                >
+                  <link.icon className="w-4 h-4" />
+                  <span>{link.label}</span>
+                </Link>
+              ))}
+              {hasData && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setShowResetConfirmation(true);
+                    setIsMobileMenuOpen(false);
+                  }}
+                  className="w-full flex items-center justify-center space-x-2"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Reset</span>
+                </Button>
+              )}
             </div>
           </div>
         )}
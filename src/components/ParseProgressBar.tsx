@@ -0,0 +1,34 @@
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { useApp } from "@/contexts/AppContext";
+import { formatBytes } from "@/lib/utils";
+import { X } from "lucide-react";
+
+export const ParseProgressBar = () => {
+  const { isProcessing, parseProgress, processingName, cancelProcessing } = useApp();
+
+  if (!isProcessing || !parseProgress) return null;
+
+  return (
+    <div className="mt-8 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          Processing {processingName}...
+        </span>
+        <Button variant="ghost" size="sm" onClick={cancelProcessing} className="flex items-center gap-1">
+          <X className="w-4 h-4" />
+          Cancel
+        </Button>
+      </div>
+      <Progress 
+        value={parseProgress.totalBytes > 0 ? (parseProgress.bytesRead / parseProgress.totalBytes) * 100 : 0} 
+      />
+      <div className="flex justify-between text-xs text-muted-foreground font-mono">
+        <span>
+          {formatBytes(parseProgress.bytesRead)} of {formatBytes(parseProgress.totalBytes)}
+        </span>
+        <span>{parseProgress.rows.toLocaleString()} rows</span>
+      </div>
+    </div>
+  );
+};
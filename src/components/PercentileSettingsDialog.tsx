@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_PERCENTILES, parsePercentileList } from "@/utils/percentiles";
+
+interface PercentileSettingsDialogProps {
+  open: boolean;
+  percentiles: number[];
+  onSave: (percentiles: number[]) => void;
+  onCancel: () => void;
+}
+
+export const PercentileSettingsDialog = ({ open, percentiles, onSave, onCancel }: PercentileSettingsDialogProps) => {
+  const [text, setText] = useState(percentiles.join(', '));
+
+  useEffect(() => {
+    if (open) setText(percentiles.join(', '));
+  }, [open, percentiles]);
+
+  let parsed: number[] | null = null;
+  let error = '';
+  try {
+    parsed = parsePercentileList(text);
+  } catch (parseError) {
+    error = parseError instanceof Error ? parseError.message : String(parseError);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Percentiles</DialogTitle>
+          <DialogDescription>
+            Percentiles shown in the overview, the percentile chart and the exported report. Values are
+            exact below 256ms and within about 0.4% of the true response time above.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="percentile-list">Percentiles (comma separated)</Label>
+          <Input
+            id="percentile-list"
+            value={text}
+            placeholder="75, 90, 99.9, 99.99"
+            onChange={(event) => setText(event.target.value)}
+          />
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">Decimals such as 99.9 and 99.99 are allowed.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setText(DEFAULT_PERCENTILES.join(', '))} className="sm:mr-auto">
+            Reset to defaults
+          </Button>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => parsed && onSave(parsed)} disabled={!parsed}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,8 +1,14 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, AreaChart, Area, ScatterChart, Scatter } from 'recharts';
+import { useState } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, AreaChart, Area, ReferenceLine, ReferenceArea } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { APDEX_RATINGS } from "@/utils/apdex";
+import { DEFAULT_PERCENTILES, formatPercentile, getPercentileValue } from "@/utils/percentiles";
+import { RunPhases, overlappingBuckets, rampSpans } from "@/utils/steadyState";
 
 interface ChartDataPoint {
   timestamp: string;
+  offset: number;
+  start?: number;
   responseTime: number;
   throughput: number;
   errors: number;
@@ -11,19 +17,96 @@ interface ChartDataPoint {
   p90ResponseTime: number;
   p95ResponseTime: number;
   p99ResponseTime: number;
+  percentiles?: Record<string, number>;
   successRate: number;
   avgConnectTime: number;
   avgLatency: number;
+  avgServerTime: number;
+  avgDownloadTime: number;
   bandwidth: number;
+  apdex?: number;
+  activeThreads?: number;
 }
 
 interface PerformanceChartProps {
-  data: ChartDataPoint[];
+  data: (ChartDataPoint & { baseline?: ChartDataPoint })[];
   title: string;
-  type: 'response-time' | 'throughput' | 'errors' | 'percentiles' | 'min-max-avg' | 'success-rate' | 'bandwidth' | 'connect-latency';
+  type: 'response-time' | 'throughput' | 'errors' | 'percentiles' | 'min-max-avg' | 'success-rate' | 'bandwidth' | 'connect-latency' | 'phases' | 'apdex' | 'active-threads';
+  /** Overlay the baseline run nested in each point (line, percentile and error charts) */
+  showBaseline?: boolean;
+  /** Percentiles drawn by the percentile chart, lowest first */
+  percentiles?: number[];
+  /** Enables dragging across the chart to pick a time range, reported as its first and last points */
+  onRangeSelect?: (first: ChartDataPoint, last: ChartDataPoint) => void;
+  /** Shades the ramp-up and ramp-down of the run */
+  phases?: RunPhases | null;
 }
 
-export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) => {
+interface Selection {
+  start: number;
+  end: number;
+}
+
+/** The part of the chart state recharts passes to mouse handlers that is used here */
+interface ChartMouseState {
+  activeTooltipIndex?: number;
+}
+
+// The highest percentile always gets the alarm color
+const PERCENTILE_COLORS = ['--primary', '--success', '--info', '--warning', '--error'];
+
+export const PerformanceChart = ({ data, title, type, showBaseline = false, percentiles = DEFAULT_PERCENTILES, onRangeSelect, phases }: PerformanceChartProps) => {
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  // Clock times repeat in long runs, so the x axis is keyed on the unique offset and shows the time
+  const timestamps = new Map(data.map(point => [point.offset, point.timestamp]));
+  const formatTime = (offset: number) => timestamps.get(offset) ?? '';
+
+  // Points are picked by index since the time labels need not be unique
+  const selectionProps = onRangeSelect ? {
+    onMouseDown: (state: ChartMouseState) => {
+      if (state?.activeTooltipIndex !== undefined) setSelection({ start: state.activeTooltipIndex, end: state.activeTooltipIndex });
+    },
+    onMouseMove: (state: ChartMouseState) => {
+      if (selection && state?.activeTooltipIndex !== undefined) setSelection({ ...selection, end: state.activeTooltipIndex });
+    },
+    onMouseUp: () => {
+      if (selection && selection.start !== selection.end) {
+        onRangeSelect(data[Math.min(selection.start, selection.end)], data[Math.max(selection.start, selection.end)]);
+      }
+      setSelection(null);
+    },
+    onMouseLeave: () => setSelection(null)
+  } : {};
+
+  const phaseAreas = phases && data.every(point => point.start !== undefined) && rampSpans(phases).map(({ label, span }) => {
+    const buckets = overlappingBuckets(data.map(point => point.start!), span);
+    return buckets && (
+      <ReferenceArea
+        key={label}
+        x1={data[buckets[0]].offset}
+        x2={data[buckets[1]].offset}
+        fill="hsl(var(--muted-foreground) / 0.12)"
+        label={{ value: label, position: 'insideTop', fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+      />
+    );
+  });
+
+  const selectionArea = selection && (
+    <ReferenceArea
+      x1={data[selection.start].offset}
+      x2={data[selection.end].offset}
+      fill="hsl(var(--primary) / 0.15)"
+      stroke="hsl(var(--primary) / 0.4)"
+    />
+  );
+
+  const getPercentileColor = (index: number) => {
+    const count = PERCENTILE_COLORS.length;
+    const slot = (((count - percentiles.length + index) % count) + count) % count;
+    return `hsl(var(${PERCENTILE_COLORS[slot]}))`;
+  };
+
   const getColor = (dataKey?: string) => {
     switch (type) {
       case 'response-time':
@@ -32,19 +115,21 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
         return 'hsl(var(--success))';
       case 'errors':
         return 'hsl(var(--error))';
-      case 'percentiles':
-        switch (dataKey) {
-          case 'p90ResponseTime': return 'hsl(var(--info))';
-          case 'p95ResponseTime': return 'hsl(var(--warning))';
-          case 'p99ResponseTime': return 'hsl(var(--error))';
-          default: return 'hsl(var(--primary))';
-        }
       case 'success-rate':
         return 'hsl(var(--success))';
       case 'bandwidth':
         return 'hsl(var(--info))';
+      case 'active-threads':
+        return 'hsl(var(--warning))';
       case 'connect-latency':
         return dataKey === 'avgConnectTime' ? 'hsl(var(--warning))' : 'hsl(var(--info))';
+      case 'phases':
+        switch (dataKey) {
+          case 'avgConnectTime': return 'hsl(var(--warning))';
+          case 'avgServerTime': return 'hsl(var(--info))';
+          case 'avgDownloadTime': return 'hsl(var(--success))';
+          default: return 'hsl(var(--primary))';
+        }
       default:
         return 'hsl(var(--primary))';
     }
@@ -55,6 +140,7 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
       case 'response-time':
       case 'percentiles':
       case 'connect-latency':
+      case 'phases':
         return `${value.toFixed(0)}ms`;
       case 'throughput':
         return `${value.toFixed(1)}/s`;
@@ -64,6 +150,10 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
         return `${value.toFixed(1)}%`;
       case 'bandwidth':
         return `${value.toFixed(1)} KB/s`;
+      case 'apdex':
+        return value.toFixed(2);
+      case 'active-threads':
+        return `${value.toFixed(0)} threads`;
       default:
         return value.toString();
     }
@@ -73,9 +163,10 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
     switch (type) {
       case 'errors':
         return (
-          <BarChart data={data}>
+          <BarChart data={data} {...selectionProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
-            <XAxis dataKey="timestamp" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            {phaseAreas}
+            <XAxis dataKey="offset" tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <Tooltip 
               contentStyle={{
@@ -84,18 +175,25 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
                 borderRadius: '8px',
                 boxShadow: 'var(--shadow-elegant)'
               }}
-              formatter={(value: number) => [formatValue(value), title]}
+              formatter={(value: number, name: string) => [formatValue(value), showBaseline ? name : title]}
+              labelFormatter={formatTime}
               labelStyle={{ color: 'hsl(var(--foreground))' }}
             />
-            <Bar dataKey="errors" fill={getColor()} radius={[4, 4, 0, 0]} />
+            {showBaseline && <Legend />}
+            {showBaseline && (
+              <Bar dataKey="baseline.errors" fill="hsl(var(--muted-foreground) / 0.5)" radius={[4, 4, 0, 0]} name="Baseline" />
+            )}
+            <Bar dataKey="errors" fill={getColor()} radius={[4, 4, 0, 0]} name={showBaseline ? 'Candidate' : undefined} />
+            {selectionArea}
           </BarChart>
         );
 
       case 'percentiles':
         return (
-          <LineChart data={data}>
+          <LineChart data={data} {...selectionProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
-            <XAxis dataKey="timestamp" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            {phaseAreas}
+            <XAxis dataKey="offset" tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <Tooltip 
               contentStyle={{
@@ -105,19 +203,47 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
                 boxShadow: 'var(--shadow-elegant)'
               }}
               formatter={(value: number, name: string) => [formatValue(value), name]}
+              labelFormatter={formatTime}
               labelStyle={{ color: 'hsl(var(--foreground))' }}
             />
-            <Line type="monotone" dataKey="p90ResponseTime" stroke={getColor('p90ResponseTime')} strokeWidth={2} dot={false} name="90th Percentile" />
-            <Line type="monotone" dataKey="p95ResponseTime" stroke={getColor('p95ResponseTime')} strokeWidth={2} dot={false} name="95th Percentile" />
-            <Line type="monotone" dataKey="p99ResponseTime" stroke={getColor('p99ResponseTime')} strokeWidth={2} dot={false} name="99th Percentile" />
+            {percentiles.map((percentile, index) => (
+              <Line
+                key={percentile}
+                type="monotone"
+                dataKey={(point: ChartDataPoint) => getPercentileValue(point, percentile)}
+                stroke={getPercentileColor(index)}
+                strokeWidth={2}
+                dot={false}
+                name={`${formatPercentile(percentile)} Percentile`}
+              />
+            ))}
+            {showBaseline && (
+              <>
+                {percentiles.map((percentile, index) => (
+                  <Line
+                    key={`baseline-${percentile}`}
+                    type="monotone"
+                    dataKey={(point: { baseline?: ChartDataPoint }) => point.baseline && getPercentileValue(point.baseline, percentile)}
+                    stroke={getPercentileColor(index)}
+                    strokeWidth={1.5}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name={`Baseline ${formatPercentile(percentile)}`}
+                  />
+                ))}
+                <Legend />
+              </>
+            )}
+            {selectionArea}
           </LineChart>
         );
 
       case 'min-max-avg':
         return (
-          <AreaChart data={data}>
+          <AreaChart data={data} {...selectionProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
-            <XAxis dataKey="timestamp" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            {phaseAreas}
+            <XAxis dataKey="offset" tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <Tooltip 
               contentStyle={{
@@ -127,19 +253,22 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
                 boxShadow: 'var(--shadow-elegant)'
               }}
               formatter={(value: number, name: string) => [formatValue(value), name]}
+              labelFormatter={formatTime}
               labelStyle={{ color: 'hsl(var(--foreground))' }}
             />
             <Area type="monotone" dataKey="maxResponseTime" stackId="1" stroke="hsl(var(--error))" fill="hsl(var(--error) / 0.3)" name="Max Response Time" />
             <Area type="monotone" dataKey="responseTime" stackId="2" stroke="hsl(var(--info))" fill="hsl(var(--info) / 0.5)" name="Avg Response Time" />
             <Area type="monotone" dataKey="minResponseTime" stackId="3" stroke="hsl(var(--success))" fill="hsl(var(--success) / 0.3)" name="Min Response Time" />
+            {selectionArea}
           </AreaChart>
         );
 
       case 'connect-latency':
         return (
-          <LineChart data={data}>
+          <LineChart data={data} {...selectionProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
-            <XAxis dataKey="timestamp" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            {phaseAreas}
+            <XAxis dataKey="offset" tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <Tooltip 
               contentStyle={{
@@ -149,19 +278,48 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
                 boxShadow: 'var(--shadow-elegant)'
               }}
               formatter={(value: number, name: string) => [formatValue(value), name]}
+              labelFormatter={formatTime}
               labelStyle={{ color: 'hsl(var(--foreground))' }}
             />
             <Line type="monotone" dataKey="avgConnectTime" stroke={getColor('avgConnectTime')} strokeWidth={2} dot={false} name="Connect Time" />
             <Line type="monotone" dataKey="avgLatency" stroke={getColor('avgLatency')} strokeWidth={2} dot={false} name="Latency" />
+            {selectionArea}
           </LineChart>
         );
 
-      default:
+      case 'phases':
         return (
-          <LineChart data={data}>
+          <BarChart data={data} {...selectionProps}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
-            <XAxis dataKey="timestamp" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            {phaseAreas}
+            <XAxis dataKey="offset" tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <Tooltip 
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                boxShadow: 'var(--shadow-elegant)'
+              }}
+              formatter={(value: number, name: string) => [formatValue(value), name]}
+              labelFormatter={formatTime}
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+            />
+            <Legend />
+            <Bar dataKey="avgConnectTime" stackId="phases" fill={getColor('avgConnectTime')} name="Connect" />
+            <Bar dataKey="avgServerTime" stackId="phases" fill={getColor('avgServerTime')} name="Server (TTFB - Connect)" />
+            <Bar dataKey="avgDownloadTime" stackId="phases" fill={getColor('avgDownloadTime')} name="Download" radius={[4, 4, 0, 0]} />
+            {selectionArea}
+          </BarChart>
+        );
+
+      case 'apdex':
+        return (
+          <LineChart data={data} {...selectionProps}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+            {phaseAreas}
+            <XAxis dataKey="offset" tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis domain={[0, 1]} stroke="hsl(var(--muted-foreground))" fontSize={12} />
             <Tooltip 
               contentStyle={{
                 backgroundColor: 'hsl(var(--card))',
@@ -170,18 +328,68 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
                 boxShadow: 'var(--shadow-elegant)'
               }}
               formatter={(value: number) => [formatValue(value), title]}
+              labelFormatter={formatTime}
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+            />
+            {/* Lower edge of each rating band */}
+            {APDEX_RATINGS.filter(band => band.min > 0).map(band => (
+              <ReferenceLine
+                key={band.rating}
+                y={band.min}
+                stroke={`hsl(var(--${band.color}) / 0.6)`}
+                strokeDasharray="3 3"
+                label={{ value: band.rating, position: 'insideBottomRight', fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+              />
+            ))}
+            <Line type="monotone" dataKey="apdex" stroke={getColor()} strokeWidth={2} dot={false} activeDot={{ r: 6, fill: getColor() }} />
+            {selectionArea}
+          </LineChart>
+        );
+
+      default: {
+        const dataKey = type === 'response-time' ? 'responseTime' : type === 'throughput' ? 'throughput' : type === 'success-rate' ? 'successRate' : type === 'bandwidth' ? 'bandwidth' : type === 'active-threads' ? 'activeThreads' : 'responseTime';
+        return (
+          <LineChart data={data} {...selectionProps}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+            {phaseAreas}
+            <XAxis dataKey="offset" tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <Tooltip 
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                boxShadow: 'var(--shadow-elegant)'
+              }}
+              formatter={(value: number, name: string) => [formatValue(value), showBaseline ? name : title]}
+              labelFormatter={formatTime}
               labelStyle={{ color: 'hsl(var(--foreground))' }}
             />
+            {showBaseline && <Legend />}
+            {showBaseline && (
+              <Line
+                type="monotone"
+                dataKey={`baseline.${dataKey}`}
+                stroke="hsl(var(--muted-foreground))"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                name="Baseline"
+              />
+            )}
             <Line 
               type="monotone" 
-              dataKey={type === 'response-time' ? 'responseTime' : type === 'throughput' ? 'throughput' : type === 'success-rate' ? 'successRate' : type === 'bandwidth' ? 'bandwidth' : 'responseTime'} 
+              dataKey={dataKey} 
               stroke={getColor()} 
               strokeWidth={2} 
               dot={false} 
               activeDot={{ r: 6, fill: getColor() }} 
+              name={showBaseline ? 'Candidate' : undefined}
             />
+            {selectionArea}
           </LineChart>
         );
+      }
     }
   };
 
@@ -189,6 +397,9 @@ export const PerformanceChart = ({ data, title, type }: PerformanceChartProps) =
     <Card className="bg-gradient-card shadow-card">
       <CardHeader>
         <CardTitle className="text-foreground">{title}</CardTitle>
+        {onRangeSelect && (
+          <p className="text-sm text-muted-foreground">Drag across the chart to zoom the report to that time range</p>
+        )}
       </CardHeader>
       <CardContent>
         <ResponsiveContainer width="100%" height={300}>
@@ -0,0 +1,65 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PhaseBreakdown } from "@/utils/jtlParser";
+
+interface PhaseBreakdownChartProps {
+  phases: PhaseBreakdown;
+  title: string;
+}
+
+const MAX_TRANSACTIONS = 15;
+
+export const PhaseBreakdownChart = ({ phases, title }: PhaseBreakdownChartProps) => {
+  // Slowest transactions first, with the whole run as the leading bar for reference
+  const rows = [
+    { label: 'Overall', ...phases.overall },
+    ...[...phases.transactions]
+      .sort((a, b) => (b.connect + b.server + b.download) - (a.connect + a.server + a.download))
+      .slice(0, MAX_TRANSACTIONS)
+  ];
+
+  const formatValue = (value: number) => `${value.toFixed(0)}ms`;
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle className="text-foreground">{title}</CardTitle>
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          <span>Connect: <span className="font-mono text-foreground">{formatValue(phases.overall.connect)}</span></span>
+          <span>Server: <span className="font-mono text-foreground">{formatValue(phases.overall.server)}</span></span>
+          <span>Download: <span className="font-mono text-foreground">{formatValue(phases.overall.download)}</span></span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={Math.max(300, rows.length * 32)}>
+          <BarChart data={rows} layout="vertical" margin={{ left: 24 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+            <XAxis type="number" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis
+              type="category"
+              dataKey="label"
+              width={160}
+              stroke="hsl(var(--muted-foreground))"
+              fontSize={12}
+              tickFormatter={(label: string) => label.length > 24 ? `${label.slice(0, 22)}…` : label}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                boxShadow: 'var(--shadow-elegant)'
+              }}
+              formatter={(value: number, name: string) => [formatValue(value), name]}
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+            />
+            <Legend />
+            <Bar dataKey="connect" stackId="phases" fill="hsl(var(--warning))" name="Connect" />
+            <Bar dataKey="server" stackId="phases" fill="hsl(var(--info))" name="Server (TTFB - Connect)" />
+            <Bar dataKey="download" stackId="phases" fill="hsl(var(--success))" name="Download" radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
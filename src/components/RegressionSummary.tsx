@@ -0,0 +1,55 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VerdictBadge } from "@/components/VerdictBadge";
+import { DistributionTest, RegressionResult, RegressionVerdict } from "@/utils/regression";
+
+interface RegressionSummaryProps {
+  overall: RegressionResult;
+  transactions: RegressionResult[];
+  test: DistributionTest;
+  onTestChange: (test: DistributionTest) => void;
+}
+
+const VERDICTS: { verdict: RegressionVerdict; label: string; className: string }[] = [
+  { verdict: 'regressed', label: 'Regressed', className: 'text-error' },
+  { verdict: 'improved', label: 'Improved', className: 'text-success' },
+  { verdict: 'unchanged', label: 'Unchanged', className: 'text-muted-foreground' },
+  { verdict: 'inconclusive', label: 'Inconclusive', className: 'text-warning' }
+];
+
+export const RegressionSummary = ({ overall, transactions, test, onTestChange }: RegressionSummaryProps) => {
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle className="text-foreground flex items-center gap-3">
+            Regression Verdict
+            <VerdictBadge result={overall} />
+          </CardTitle>
+          <Select value={test} onValueChange={(value) => onTestChange(value as DistributionTest)}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mann-whitney">Mann-Whitney U test</SelectItem>
+              <SelectItem value="kolmogorov-smirnov">Kolmogorov-Smirnov test</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-muted-foreground">{overall.reason}</p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {VERDICTS.map(({ verdict, label, className }) => (
+            <div key={verdict} className="rounded-lg border p-4">
+              <div className={`text-2xl font-bold ${className}`}>
+                {transactions.filter(result => result.verdict === verdict).length}
+              </div>
+              <div className="text-sm text-muted-foreground">{label} transactions</div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,55 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ResponseCodeCount } from "@/utils/jtlParser";
+
+interface ResponseCodeDistributionProps {
+  codes: ResponseCodeCount[];
+}
+
+export const ResponseCodeDistribution = ({ codes }: ResponseCodeDistributionProps) => (
+  <Card className="bg-gradient-card shadow-card">
+    <CardHeader>
+      <CardTitle className="text-foreground">Response Codes</CardTitle>
+    </CardHeader>
+    <CardContent>
+      {codes.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No samples</div>
+      ) : (
+        <div className="rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Code</TableHead>
+                <TableHead className="font-semibold text-right">Samples</TableHead>
+                <TableHead className="font-semibold">Share</TableHead>
+                <TableHead className="font-semibold text-right">Failed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {codes.map(code => (
+                <TableRow key={code.responseCode} className="hover:bg-muted/30 transition-colors">
+                  <TableCell className="font-mono">{code.responseCode}</TableCell>
+                  <TableCell className="text-right font-mono">{code.count.toLocaleString()}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <div className="h-2 w-32 overflow-hidden rounded-full bg-muted">
+                        <div
+                          className={code.failures > 0 ? 'h-full bg-error' : 'h-full bg-success'}
+                          style={{ width: `${code.percentage}%` }}
+                        />
+                      </div>
+                      <span className="font-mono text-sm">{code.percentage.toFixed(1)}%</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className={`text-right font-mono ${code.failures > 0 ? 'text-error' : 'text-muted-foreground'}`}>
+                    {code.failures.toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
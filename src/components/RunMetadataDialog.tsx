@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RunMetadata, StoredRun } from "@/utils/runHistory";
+
+interface RunMetadataDialogProps {
+  run: StoredRun | null;
+  onSave: (metadata: RunMetadata) => void;
+  onCancel: () => void;
+}
+
+/** Formats epoch milliseconds for a datetime-local input, in local time. */
+const toLocalInput = (time: number) => {
+  const date = new Date(time);
+  return new Date(time - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const RunMetadataDialog = ({ run, onSave, onCancel }: RunMetadataDialogProps) => {
+  const [name, setName] = useState('');
+  const [date, setDate] = useState('');
+  const [buildNumber, setBuildNumber] = useState('');
+  const [tags, setTags] = useState('');
+  const [environment, setEnvironment] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!run) return;
+    setName(run.name);
+    setDate(toLocalInput(run.date));
+    setBuildNumber(run.buildNumber ?? '');
+    setTags(run.tags.join(', '));
+    setEnvironment(run.environment);
+    setNotes(run.notes);
+  }, [run]);
+
+  const handleSave = () => {
+    if (!run) return;
+    const parsedDate = new Date(date).getTime();
+    onSave({
+      name: name.trim() || run.name,
+      date: Number.isNaN(parsedDate) ? run.date : parsedDate,
+      buildNumber: buildNumber.trim() || undefined,
+      tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      environment: environment.trim(),
+      notes: notes.trim()
+    });
+  };
+
+  return (
+    <Dialog open={!!run} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Run</DialogTitle>
+          <DialogDescription>
+            Describe this run so it is easy to find again later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="run-name">Name</Label>
+            <Input id="run-name" value={name} onChange={(event) => setName(event.target.value)} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="run-date">Date</Label>
+              <Input id="run-date" type="datetime-local" value={date} onChange={(event) => setDate(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="run-build">Build</Label>
+              <Input
+                id="run-build"
+                placeholder="e.g. 1432 or v2.4.0"
+                value={buildNumber}
+                onChange={(event) => setBuildNumber(event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="run-environment">Environment</Label>
+            <Input
+              id="run-environment"
+              placeholder="e.g. staging"
+              value={environment}
+              onChange={(event) => setEnvironment(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="run-tags">Tags</Label>
+            <Input
+              id="run-tags"
+              placeholder="Comma separated, e.g. release-2.4, nightly"
+              value={tags}
+              onChange={(event) => setTags(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="run-notes">Notes</Label>
+            <Textarea id="run-notes" rows={4} value={notes} onChange={(event) => setNotes(event.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
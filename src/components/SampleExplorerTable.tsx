@@ -0,0 +1,126 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { JTLRecord, SampleSort } from "@/utils/jtlParser";
+import { SearchField } from "@/utils/sampleSearch";
+import { visibleRows } from "@/utils/virtualRows";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+
+interface SampleExplorerTableProps {
+  /** Store rows to list, in display order */
+  rows: Uint32Array;
+  getRecord: (row: number) => JTLRecord;
+  sort?: SampleSort;
+  onSortChange: (sort: SampleSort) => void;
+}
+
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 600;
+
+const formatOptional = (value: number | undefined, unit = '') => (value === undefined ? '–' : `${value.toLocaleString()}${unit}`);
+
+const COLUMNS: { field: SearchField; title: string; width: number; numeric?: boolean; mono?: boolean; render: (record: JTLRecord) => ReactNode }[] = [
+  { field: 'timestamp', title: 'Time', width: 110, mono: true, render: record => new Date(record.timestamp).toLocaleTimeString() },
+  { field: 'label', title: 'Transaction', width: 220, render: record => record.label },
+  { field: 'elapsed', title: 'Elapsed', width: 100, numeric: true, render: record => `${record.elapsed.toLocaleString()}ms` },
+  { field: 'latency', title: 'Latency', width: 100, numeric: true, render: record => formatOptional(record.latency, 'ms') },
+  { field: 'connect', title: 'Connect', width: 100, numeric: true, render: record => formatOptional(record.connect, 'ms') },
+  { field: 'responseCode', title: 'Code', width: 80, mono: true, render: record => record.responseCode },
+  { field: 'responseMessage', title: 'Message', width: 160, render: record => record.responseMessage },
+  {
+    field: 'success',
+    title: 'Status',
+    width: 90,
+    render: record => <Badge variant={record.success ? 'default' : 'destructive'}>{record.success ? 'OK' : 'Failed'}</Badge>
+  },
+  { field: 'threadName', title: 'Thread', width: 160, render: record => record.threadName },
+  { field: 'bytes', title: 'Bytes', width: 100, numeric: true, render: record => formatOptional(record.bytes) },
+  { field: 'sentBytes', title: 'Sent', width: 90, numeric: true, render: record => formatOptional(record.sentBytes) },
+  { field: 'url', title: 'URL', width: 260, render: record => record.url },
+  { field: 'failureMessage', title: 'Failure Message', width: 260, render: record => record.failureMessage }
+];
+
+const GRID_TEMPLATE = COLUMNS.map(column => `${column.width}px`).join(' ');
+const TABLE_WIDTH = COLUMNS.reduce((width, column) => width + column.width, 0);
+
+export const SampleExplorerTable = ({ rows, getRecord, sort, onSortChange }: SampleExplorerTableProps) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  // A new search or order starts again from the top
+  useEffect(() => {
+    if (scrollerRef.current) scrollerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [rows]);
+
+  const { first, last, offset, height } = visibleRows(scrollTop, VIEWPORT_HEIGHT, rows.length, ROW_HEIGHT);
+
+  const handleSort = (field: SearchField) => {
+    onSortChange({ field, descending: sort?.field === field ? !sort.descending : true });
+  };
+
+  const getSortIcon = (field: SearchField) => {
+    if (sort?.field !== field) return <ArrowUpDown className="w-3 h-3" />;
+    return sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />;
+  };
+
+  const visible: ReactNode[] = [];
+  for (let index = first; index < last; index++) {
+    const record = getRecord(rows[index]);
+    visible.push(
+      <div
+        key={index}
+        className="grid items-center border-b text-sm hover:bg-muted/30"
+        style={{ gridTemplateColumns: GRID_TEMPLATE, height: ROW_HEIGHT }}
+      >
+        {COLUMNS.map(column => {
+          const content = column.render(record);
+          return (
+            <div
+              key={column.field}
+              className={`px-3 truncate ${column.numeric ? 'text-right' : ''} ${column.numeric || column.mono ? 'font-mono' : ''}`}
+              title={typeof content === 'string' ? content : undefined}
+            >
+              {content}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border overflow-x-auto">
+      <div style={{ width: TABLE_WIDTH }}>
+        <div className="grid bg-muted/50 border-b" style={{ gridTemplateColumns: GRID_TEMPLATE }}>
+          {COLUMNS.map(column => (
+            <Button
+              key={column.field}
+              variant="ghost"
+              onClick={() => handleSort(column.field)}
+              className={`h-10 px-3 rounded-none font-semibold text-foreground gap-1 ${column.numeric ? 'justify-end' : 'justify-start'}`}
+            >
+              {column.title}
+              {getSortIcon(column.field)}
+            </Button>
+          ))}
+        </div>
+        <div
+          ref={scrollerRef}
+          className="overflow-y-auto"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        >
+          <div className="relative" style={{ height }}>
+            <div className="absolute inset-x-0" style={{ top: offset }}>
+              {visible}
+            </div>
+          </div>
+          {rows.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">No samples match</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { JTLRecord } from "@/utils/jtlParser";
+
+interface SampleListDialogProps {
+  open: boolean;
+  title: string;
+  description?: string;
+  records: JTLRecord[];
+  /** Number of matching samples, which may exceed the records listed */
+  total: number;
+  onClose: () => void;
+}
+
+export const SampleListDialog = ({ open, title, description, records, total, onClose }: SampleListDialogProps) => (
+  <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+    <DialogContent className="max-w-4xl">
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>
+          {description && `${description} • `}
+          {records.length < total
+            ? `Showing the first ${records.length.toLocaleString()} of ${total.toLocaleString()} samples`
+            : `${total.toLocaleString()} sample${total === 1 ? '' : 's'}`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[60vh] overflow-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Time</TableHead>
+              <TableHead>Transaction</TableHead>
+              <TableHead className="text-right">Elapsed</TableHead>
+              <TableHead>Code</TableHead>
+              <TableHead>Thread</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map((record, index) => (
+              <TableRow key={index}>
+                <TableCell className="font-mono whitespace-nowrap">{new Date(record.timestamp).toLocaleTimeString()}</TableCell>
+                <TableCell className="max-w-xs truncate" title={record.label}>{record.label}</TableCell>
+                <TableCell className="font-mono text-right">{record.elapsed}ms</TableCell>
+                <TableCell className="font-mono">{record.responseCode}</TableCell>
+                <TableCell className="max-w-[12rem] truncate" title={record.threadName}>{record.threadName}</TableCell>
+                <TableCell>
+                  <Badge variant={record.success ? 'default' : 'destructive'}>{record.success ? 'OK' : 'Failed'}</Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ScatterSamples } from "@/utils/jtlParser";
+import { RunPhases, rampSpans } from "@/utils/steadyState";
+
+interface ScatterPlotProps {
+  title: string;
+  samples: ScatterSamples;
+  /** Shades the ramp-up and ramp-down of the run */
+  phases?: RunPhases | null;
+}
+
+type ColorBy = 'status' | 'label' | 'threadGroup';
+
+const HEIGHT = 360;
+const MARGIN = { top: 8, right: 12, bottom: 28, left: 60 };
+const MAX_CATEGORIES = 10;
+const POINT_SIZE = 2;
+
+// Red is reserved for failures, so categories skip the error color
+const CATEGORY_VARIABLES = ['--primary', '--info', '--warning', '--accent', '--success'];
+
+/** Canvas cannot read CSS variables, so theme colors are resolved up front. */
+const themeColor = (variable: string, alpha = 1) => {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(variable).trim();
+  return `hsl(${value} / ${alpha})`;
+};
+
+const categoryColor = (index: number, alpha: number) =>
+  index < CATEGORY_VARIABLES.length
+    ? themeColor(CATEGORY_VARIABLES[index], alpha)
+    : `hsl(${(index * 137) % 360} 70% 50% / ${alpha})`;
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms.toFixed(0)}ms`;
+  return `${(ms / 1000).toFixed(ms < 10000 ? 1 : 0)}s`;
+};
+
+export const ScatterPlot = ({ title, samples, phases }: ScatterPlotProps) => {
+  const [colorBy, setColorBy] = useState<ColorBy>('status');
+  const [logScale, setLogScale] = useState(false);
+  const [width, setWidth] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The most frequent labels or thread groups get their own color, the rest share one
+  const categories = useMemo(() => {
+    if (colorBy === 'status') return null;
+    const codes = colorBy === 'label' ? samples.labelCodes : samples.threadGroupCodes;
+    const names = colorBy === 'label' ? samples.labels : samples.threadGroups;
+    const counts = new Uint32Array(names.length);
+    for (const code of codes) counts[code]++;
+    const ranked = Array.from(names.keys()).filter(code => counts[code] > 0).sort((a, b) => counts[b] - counts[a]);
+    const slotOf = new Int32Array(names.length).fill(-1);
+    ranked.slice(0, MAX_CATEGORIES).forEach((code, slot) => { slotOf[code] = slot; });
+    return {
+      codes,
+      slotOf,
+      legend: ranked.slice(0, MAX_CATEGORIES).map(code => names[code] || '(none)'),
+      others: ranked.length > MAX_CATEGORIES
+    };
+  }, [samples, colorBy]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(HEIGHT * ratio);
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, HEIGHT);
+
+    const count = samples.timestamps.length;
+    if (count === 0) return;
+
+    let minTime = Infinity;
+    let maxTime = -Infinity;
+    let maxElapsed = 1;
+    for (let i = 0; i < count; i++) {
+      if (samples.timestamps[i] < minTime) minTime = samples.timestamps[i];
+      if (samples.timestamps[i] > maxTime) maxTime = samples.timestamps[i];
+      if (samples.elapsed[i] > maxElapsed) maxElapsed = samples.elapsed[i];
+    }
+
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const timeSpan = Math.max(1, maxTime - minTime);
+    const x = (timestamp: number) => MARGIN.left + ((timestamp - minTime) / timeSpan) * plotWidth;
+    const logMax = Math.log10(maxElapsed + 1);
+    const y = (elapsed: number) => MARGIN.top + plotHeight * (1 - (logScale
+      ? Math.log10(Math.max(0, elapsed) + 1) / logMax
+      : elapsed / maxElapsed));
+
+    // Ramps behind everything else
+    const mutedColor = themeColor('--muted-foreground');
+    if (phases) {
+      context.textAlign = 'center';
+      context.textBaseline = 'top';
+      context.font = '11px sans-serif';
+      for (const { label, span } of rampSpans(phases)) {
+        const left = x(Math.max(span.from, minTime));
+        const right = x(Math.min(span.to, maxTime));
+        if (right <= left) continue;
+        context.fillStyle = themeColor('--muted-foreground', 0.12);
+        context.fillRect(left, MARGIN.top, right - left, plotHeight);
+        context.fillStyle = mutedColor;
+        context.fillText(label, (left + right) / 2, MARGIN.top + 4);
+      }
+    }
+
+    // Grid and axes
+    context.strokeStyle = themeColor('--muted-foreground', 0.2);
+    context.fillStyle = mutedColor;
+    context.font = '12px sans-serif';
+    context.lineWidth = 1;
+    const yTicks = logScale
+      ? Array.from({ length: Math.floor(logMax) + 1 }, (_, power) => 10 ** power)
+      : Array.from({ length: 5 }, (_, index) => (maxElapsed * index) / 4);
+    context.textAlign = 'right';
+    context.textBaseline = 'middle';
+    for (const tick of yTicks) {
+      context.beginPath();
+      context.moveTo(MARGIN.left, y(tick));
+      context.lineTo(width - MARGIN.right, y(tick));
+      context.stroke();
+      context.fillText(formatDuration(tick), MARGIN.left - 6, y(tick));
+    }
+    context.textAlign = 'center';
+    context.textBaseline = 'top';
+    for (let index = 0; index <= 4; index++) {
+      const timestamp = minTime + (timeSpan * index) / 4;
+      context.textAlign = index === 0 ? 'left' : index === 4 ? 'right' : 'center';
+      context.fillText(new Date(timestamp).toLocaleTimeString(), x(timestamp), HEIGHT - MARGIN.bottom + 8);
+    }
+
+    // Successful samples first so failures stay on top
+    const successColor = themeColor('--primary', 0.5);
+    const otherColor = themeColor('--muted-foreground', 0.4);
+    const categoryColors = Array.from({ length: MAX_CATEGORIES }, (_, slot) => categoryColor(slot, 0.6));
+    for (let i = 0; i < count; i++) {
+      if (!samples.success[i]) continue;
+      if (categories) {
+        const slot = categories.slotOf[categories.codes[i]];
+        context.fillStyle = slot >= 0 ? categoryColors[slot] : otherColor;
+      } else {
+        context.fillStyle = successColor;
+      }
+      context.fillRect(x(samples.timestamps[i]) - POINT_SIZE / 2, y(samples.elapsed[i]) - POINT_SIZE / 2, POINT_SIZE, POINT_SIZE);
+    }
+    context.fillStyle = themeColor('--error', 0.85);
+    for (let i = 0; i < count; i++) {
+      if (samples.success[i]) continue;
+      context.fillRect(x(samples.timestamps[i]) - POINT_SIZE / 2, y(samples.elapsed[i]) - POINT_SIZE / 2, POINT_SIZE, POINT_SIZE);
+    }
+  }, [samples, categories, logScale, width, phases]);
+
+  const shown = samples.timestamps.length;
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="text-foreground">{title}</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {shown < samples.total
+                ? `Showing ${shown.toLocaleString()} of ${samples.total.toLocaleString()} samples, downsampled evenly over time`
+                : `${samples.total.toLocaleString()} samples`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="scatter-log-scale" checked={logScale} onCheckedChange={setLogScale} />
+              <Label htmlFor="scatter-log-scale">Log scale</Label>
+            </div>
+            <Select value={colorBy} onValueChange={(value) => setColorBy(value as ColorBy)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="status">Color by status</SelectItem>
+                <SelectItem value="label">Color by transaction</SelectItem>
+                <SelectItem value="threadGroup">Color by thread group</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div ref={containerRef}>
+          <canvas ref={canvasRef} style={{ width: '100%', height: HEIGHT }} />
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {categories ? (
+            categories.legend.map((name, slot) => (
+              <span key={name} className="flex items-center gap-1.5 max-w-[16rem]">
+                <span className="inline-block w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: categoryColor(slot, 1) }} />
+                <span className="truncate" title={name}>{name}</span>
+              </span>
+            ))
+          ) : (
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block w-2 h-2 rounded-full bg-primary" />
+              Successful
+            </span>
+          )}
+          {categories?.others && (
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block w-2 h-2 rounded-full bg-muted-foreground" />
+              Other
+            </span>
+          )}
+          <span className="flex items-center gap-1.5">
+            <span className="inline-block w-2 h-2 rounded-full bg-error" />
+            Failed
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import {
+  SLA_METRICS,
+  SLA_OPERATORS,
+  SlaMetric,
+  SlaOperator,
+  SlaRule,
+  SlaScope,
+  compileLabelPattern,
+  createSlaRule,
+  parseSlaRules
+} from "@/utils/slaRules";
+import { Download, Plus, Trash2, Upload } from "lucide-react";
+
+interface SlaRuleEditorProps {
+  open: boolean;
+  rules: SlaRule[];
+  onSave: (rules: SlaRule[]) => void;
+  onCancel: () => void;
+}
+
+export const SlaRuleEditor = ({ open, rules, onSave, onCancel }: SlaRuleEditorProps) => {
+  const [draft, setDraft] = useState<SlaRule[]>(rules);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) setDraft(rules);
+  }, [open, rules]);
+
+  const updateRule = (id: string, patch: Partial<SlaRule>) => {
+    setDraft(current => current.map(rule => rule.id === id ? { ...rule, ...patch } : rule));
+  };
+
+  const handleScopeChange = (rule: SlaRule, scope: SlaScope) => {
+    updateRule(rule.id, { scope, labelPattern: scope === 'transaction' ? rule.labelPattern ?? '' : undefined });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'sla-rules.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setDraft(parseSlaRules(await file.text()));
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: `${file.name} does not contain valid SLA rules. ${error instanceof Error ? error.message : ''}`,
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const hasInvalidPattern = draft.some(rule => rule.scope === 'transaction' && !compileLabelPattern(rule.labelPattern));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>SLA Rules</DialogTitle>
+          <DialogDescription>
+            Every run is checked against these rules. Transaction rules apply to each label matching the regular expression.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {draft.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">No rules yet. Add one to start judging runs.</p>
+          )}
+          {draft.map(rule => {
+            const invalidPattern = rule.scope === 'transaction' && !compileLabelPattern(rule.labelPattern);
+            return (
+              <div key={rule.id} className="flex flex-wrap items-center gap-2 rounded-lg border p-3">
+                <Select value={rule.scope} onValueChange={(value) => handleScopeChange(rule, value as SlaScope)}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="global">Overall</SelectItem>
+                    <SelectItem value="transaction">Transactions</SelectItem>
+                  </SelectContent>
+                </Select>
+                {rule.scope === 'transaction' && (
+                  <Input
+                    className={`w-48 font-mono ${invalidPattern ? 'border-error' : ''}`}
+                    placeholder="^Checkout"
+                    value={rule.labelPattern ?? ''}
+                    onChange={(event) => updateRule(rule.id, { labelPattern: event.target.value })}
+                    aria-label="Label pattern"
+                    aria-invalid={invalidPattern}
+                  />
+                )}
+                <Select value={rule.metric} onValueChange={(value) => updateRule(rule.id, { metric: value as SlaMetric })}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SLA_METRICS) as SlaMetric[]).map(metric => (
+                      <SelectItem key={metric} value={metric}>{SLA_METRICS[metric].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={rule.operator} onValueChange={(value) => updateRule(rule.id, { operator: value as SlaOperator })}>
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLA_OPERATORS.map(operator => (
+                      <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-28"
+                  value={rule.threshold}
+                  onChange={(event) => updateRule(rule.id, { threshold: Number(event.target.value) })}
+                  aria-label="Threshold"
+                />
+                <span className="text-sm text-muted-foreground">{SLA_METRICS[rule.metric].unit}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto"
+                  onClick={() => setDraft(current => current.filter(other => other.id !== rule.id))}
+                  aria-label="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setDraft(current => [...current, createSlaRule()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={draft.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => handleImport(event.target.files?.[0])}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button onClick={() => onSave(draft)} disabled={hasInvalidPattern}>Save Rules</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
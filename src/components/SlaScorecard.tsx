@@ -0,0 +1,64 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { SlaResult, SlaStatus, describeSlaRule, slaPassed } from "@/utils/slaRules";
+import { CheckCircle, MinusCircle, Settings2, XCircle } from "lucide-react";
+
+interface SlaScorecardProps {
+  results: SlaResult[];
+  onEditRules: () => void;
+}
+
+const STATUS_ICONS: Record<SlaStatus, React.ReactNode> = {
+  pass: <CheckCircle className="w-5 h-5 text-success shrink-0" />,
+  fail: <XCircle className="w-5 h-5 text-error shrink-0" />,
+  'no-data': <MinusCircle className="w-5 h-5 text-muted-foreground shrink-0" />
+};
+
+export const SlaScorecard = ({ results, onEditRules }: SlaScorecardProps) => {
+  const passed = slaPassed(results);
+  const failures = results.filter(result => result.status === 'fail').length;
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle className="text-foreground flex items-center gap-3">
+            SLA Scorecard
+            {results.length > 0 && (
+              <Badge
+                variant="outline"
+                className={passed ? 'bg-success/10 text-success border-success/30' : 'bg-error/10 text-error border-error/30'}
+              >
+                {passed ? 'Passed' : `Failed ${failures} of ${results.length}`}
+              </Badge>
+            )}
+          </CardTitle>
+          <Button variant="outline" onClick={onEditRules} className="flex items-center gap-2">
+            <Settings2 className="w-4 h-4" />
+            Edit Rules
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No SLA rules defined. Add thresholds such as "overall error rate &lt; 0.5%" to get a pass/fail verdict for every run.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {results.map(result => (
+              <div key={result.rule.id} className="flex items-start gap-3 rounded-lg border p-3">
+                {STATUS_ICONS[result.status]}
+                <div className="min-w-0">
+                  <div className="font-mono text-sm text-foreground">{describeSlaRule(result.rule)}</div>
+                  <div className="text-sm text-muted-foreground break-words">{result.detail}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,60 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { JTLRecord } from "@/utils/jtlParser";
+
+interface SlowestSamplesTableProps {
+  records: JTLRecord[];
+}
+
+// Latency and connect time are missing from results saved without them
+const formatTiming = (ms: number | undefined) => (ms === undefined ? '–' : `${ms}ms`);
+
+export const SlowestSamplesTable = ({ records }: SlowestSamplesTableProps) => (
+  <Card className="bg-gradient-card shadow-card">
+    <CardHeader>
+      <CardTitle className="text-foreground">Slowest Samples</CardTitle>
+    </CardHeader>
+    <CardContent>
+      {records.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No samples</div>
+      ) : (
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Time</TableHead>
+                <TableHead className="text-right">Elapsed</TableHead>
+                <TableHead className="text-right">Latency</TableHead>
+                <TableHead className="text-right">Connect</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Thread</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map((record, index) => (
+                <TableRow key={index} className="hover:bg-muted/30 transition-colors">
+                  <TableCell className="font-mono whitespace-nowrap">{new Date(record.timestamp).toLocaleTimeString()}</TableCell>
+                  <TableCell className="font-mono text-right">{record.elapsed}ms</TableCell>
+                  <TableCell className="font-mono text-right">{formatTiming(record.latency)}</TableCell>
+                  <TableCell className="font-mono text-right">{formatTiming(record.connect)}</TableCell>
+                  <TableCell className="font-mono">{record.responseCode}</TableCell>
+                  <TableCell className="max-w-[12rem] truncate" title={record.threadName}>{record.threadName}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={record.success ? 'default' : 'destructive'}
+                      title={record.success ? undefined : record.failureMessage}
+                    >
+                      {record.success ? 'OK' : 'Failed'}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
@@ -3,31 +3,42 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
-
-interface Transaction {
-  label: string;
-  count: number;
-  avgResponseTime: number;
-  errorRate: number;
-  errorCount: number;
-}
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ApdexBadge } from "@/components/ApdexBadge";
+import { ApdexScore, ApdexSettings, apdexThreshold } from "@/utils/apdex";
+import { TransactionSummary } from "@/utils/jtlParser";
+import {
+  TRANSACTION_COLUMNS,
+  TransactionColumnId,
+  formatTransactionValue,
+  loadVisibleColumns,
+  saveVisibleColumns
+} from "@/utils/transactionColumns";
+import { ArrowUpDown, ArrowUp, ArrowDown, Columns3 } from "lucide-react";
 
 interface TransactionTableProps {
-  transactions: Transaction[];
+  transactions: TransactionSummary[];
+  /** Per-label Apdex; the column is hidden without it */
+  apdex?: Map<string, ApdexScore>;
+  apdexSettings?: ApdexSettings;
+  /** Called with the label of a clicked row; rows are not clickable without it */
+  onSelect?: (label: string) => void;
 }
 
-type SortField = 'label' | 'count' | 'avgResponseTime' | 'errorRate' | 'errorCount';
+type SortField = 'label' | 'apdex' | TransactionColumnId;
 type SortDirection = 'asc' | 'desc';
 
-export const SortableTransactionTable = ({ transactions }: TransactionTableProps) => {
+export const SortableTransactionTable = ({ transactions, apdex, apdexSettings, onSelect }: TransactionTableProps) => {
   const [sortField, setSortField] = useState<SortField>('count');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-
-  const formatDuration = (ms: number) => {
-    if (ms < 1000) return `${ms.toFixed(0)}ms`;
-    return `${(ms / 1000).toFixed(2)}s`;
-  };
+  const [visibleColumns, setVisibleColumns] = useState<TransactionColumnId[]>(loadVisibleColumns);
 
   const getErrorBadgeVariant = (errorRate: number) => {
     if (errorRate === 0) return "default";
@@ -45,6 +56,14 @@ export const SortableTransactionTable = ({ transactions }: TransactionTableProps
     }
   };
 
+  const handleColumnToggle = (id: TransactionColumnId, visible: boolean) => {
+    const ids = TRANSACTION_COLUMNS
+      .filter(column => (column.id === id ? visible : visibleColumns.includes(column.id)))
+      .map(column => column.id);
+    setVisibleColumns(ids);
+    saveVisibleColumns(ids);
+  };
+
   const getSortIcon = (field: SortField) => {
     if (sortField !== field) return <ArrowUpDown className="w-4 h-4" />;
     return sortDirection === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />;
@@ -52,20 +71,14 @@ export const SortableTransactionTable = ({ transactions }: TransactionTableProps
 
   const sortedTransactions = [...transactions].sort((a, b) => {
     const multiplier = sortDirection === 'asc' ? 1 : -1;
-    
+
     switch (sortField) {
       case 'label':
         return multiplier * a.label.localeCompare(b.label);
-      case 'count':
-        return multiplier * (a.count - b.count);
-      case 'avgResponseTime':
-        return multiplier * (a.avgResponseTime - b.avgResponseTime);
-      case 'errorRate':
-        return multiplier * (a.errorRate - b.errorRate);
-      case 'errorCount':
-        return multiplier * (a.errorCount - b.errorCount);
+      case 'apdex':
+        return multiplier * ((apdex?.get(a.label)?.score ?? 0) - (apdex?.get(b.label)?.score ?? 0));
       default:
-        return 0;
+        return multiplier * ((a[sortField] ?? 0) - (b[sortField] ?? 0));
     }
   });
 
@@ -90,13 +103,62 @@ export const SortableTransactionTable = ({ transactions }: TransactionTableProps
     }));
   }, [sortField, sortDirection]);
 
+  const showApdex = !!apdex && !!apdexSettings && apdex.size > 0;
+  const columns = TRANSACTION_COLUMNS.filter(column => visibleColumns.includes(column.id));
+
+  const renderCell = (transaction: TransactionSummary, id: TransactionColumnId) => {
+    const column = TRANSACTION_COLUMNS.find(candidate => candidate.id === id)!;
+    switch (id) {
+      case 'errorRate':
+        return (
+          <Badge variant={getErrorBadgeVariant(transaction.errorRate)}>
+            {formatTransactionValue(column, transaction)}
+          </Badge>
+        );
+      case 'errorCount':
+        return transaction.errorCount > 0 ? (
+          <span className="text-destructive font-semibold">
+            {formatTransactionValue(column, transaction)}
+          </span>
+        ) : (
+          <span className="text-success">0</span>
+        );
+      default:
+        return formatTransactionValue(column, transaction);
+    }
+  };
+
   return (
     <Card className="bg-gradient-card shadow-card">
       <CardHeader>
-        <CardTitle className="text-foreground">Transaction Analysis</CardTitle>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-foreground">Transaction Analysis</CardTitle>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="flex items-center gap-2">
+                <Columns3 className="w-4 h-4" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {TRANSACTION_COLUMNS.map(column => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={visibleColumns.includes(column.id)}
+                  onCheckedChange={(checked) => handleColumnToggle(column.id, checked)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {column.title}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </CardHeader>
       <CardContent>
-        <div className="rounded-lg border overflow-hidden">
+        <div className="rounded-lg border overflow-x-auto">
           <Table>
             <TableHeader>
               <TableRow className="bg-muted/50">
@@ -110,85 +172,68 @@ export const SortableTransactionTable = ({ transactions }: TransactionTableProps
                     {getSortIcon('label')}
                   </Button>
                 </TableHead>
-                <TableHead className="font-semibold text-right">
-                  <Button
-                    variant="ghost"
-                    onClick={() => handleSort('count')}
-                    className="h-auto p-0 font-semibold justify-end gap-2 text-foreground ml-auto flex"
-                  >
-                    Requests
-                    {getSortIcon('count')}
-                  </Button>
-                </TableHead>
-                <TableHead className="font-semibold text-right">
-                  <Button
-                    variant="ghost"
-                    onClick={() => handleSort('avgResponseTime')}
-                    className="h-auto p-0 font-semibold justify-end gap-2 text-foreground ml-auto flex"
-                  >
-                    Avg Response Time
-                    {getSortIcon('avgResponseTime')}
-                  </Button>
-                </TableHead>
-                <TableHead className="font-semibold text-right">
-                  <Button
-                    variant="ghost"
-                    onClick={() => handleSort('errorRate')}
-                    className="h-auto p-0 font-semibold justify-end gap-2 text-foreground ml-auto flex"
-                  >
-                    Error Rate
-                    {getSortIcon('errorRate')}
-                  </Button>
-                </TableHead>
-                <TableHead className="font-semibold text-right">
-                  <Button
-                    variant="ghost"
-                    onClick={() => handleSort('errorCount')}
-                    className="h-auto p-0 font-semibold justify-end gap-2 text-foreground ml-auto flex"
-                  >
-                    Errors
-                    {getSortIcon('errorCount')}
-                  </Button>
-                </TableHead>
+                {columns.map(column => (
+                  <TableHead key={column.id} className="font-semibold text-right">
+                    <Button
+                      variant="ghost"
+                      onClick={() => handleSort(column.id)}
+                      className="h-auto p-0 font-semibold justify-end gap-2 text-foreground ml-auto flex whitespace-nowrap"
+                    >
+                      {column.title}
+                      {getSortIcon(column.id)}
+                    </Button>
+                  </TableHead>
+                ))}
+                {showApdex && (
+                  <TableHead className="font-semibold text-right">
+                    <Button
+                      variant="ghost"
+                      onClick={() => handleSort('apdex')}
+                      className="h-auto p-0 font-semibold justify-end gap-2 text-foreground ml-auto flex"
+                    >
+                      Apdex
+                      {getSortIcon('apdex')}
+                    </Button>
+                  </TableHead>
+                )}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {sortedTransactions.map((transaction, index) => (
-                <TableRow 
-                  key={transaction.label} 
-                  className="hover:bg-muted/30 transition-colors"
+              {sortedTransactions.map(transaction => (
+                <TableRow
+                  key={transaction.label}
+                  className={`hover:bg-muted/30 transition-colors ${onSelect ? 'cursor-pointer' : ''}`}
+                  onClick={onSelect && (() => onSelect(transaction.label))}
                 >
                   <TableCell className="font-medium max-w-xs">
                     <div className="truncate" title={transaction.label}>
                       {transaction.label}
                     </div>
                   </TableCell>
-                  <TableCell className="text-right font-mono">
-                    {transaction.count.toLocaleString()}
-                  </TableCell>
-                  <TableCell className="text-right font-mono">
-                    {formatDuration(transaction.avgResponseTime)}
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <Badge variant={getErrorBadgeVariant(transaction.errorRate)}>
-                      {transaction.errorRate.toFixed(2)}%
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-right font-mono">
-                    {transaction.errorCount > 0 ? (
-                      <span className="text-destructive font-semibold">
-                        {transaction.errorCount}
-                      </span>
-                    ) : (
-                      <span className="text-success">0</span>
-                    )}
-                  </TableCell>
+                  {columns.map(column => (
+                    <TableCell
+                      key={column.id}
+                      className={`text-right whitespace-nowrap ${column.id === 'errorRate' ? '' : 'font-mono'}`}
+                    >
+                      {renderCell(transaction, column.id)}
+                    </TableCell>
+                  ))}
+                  {showApdex && (
+                    <TableCell className="text-right">
+                      {apdex.get(transaction.label) && (
+                        <ApdexBadge
+                          apdex={apdex.get(transaction.label)!}
+                          threshold={apdexThreshold(apdexSettings, transaction.label)}
+                        />
+                      )}
+                    </TableCell>
+                  )}
                 </TableRow>
               ))}
             </TableBody>
           </Table>
         </div>
-        
+
         {transactions.length === 0 && (
           <div className="text-center py-8 text-muted-foreground">
             No transaction data available
@@ -197,4 +242,4 @@ export const SortableTransactionTable = ({ transactions }: TransactionTableProps
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,32 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { TimeWindow, formatRunOffset } from "@/utils/timeWindow";
+import { Clock, X } from "lucide-react";
+
+interface TimeWindowChipProps {
+  range: TimeWindow;
+  /** Epoch milliseconds of the first sample, which offsets are measured from */
+  runStart: number;
+  runEnd: number;
+  onClear: () => void;
+}
+
+export const TimeWindowChip = ({ range, runStart, runEnd, onClear }: TimeWindowChipProps) => {
+  const from = range.from ?? runStart;
+  const to = range.to ?? runEnd;
+
+  return (
+    <Badge variant="secondary" className="flex items-center gap-2 py-1 pl-3 pr-1 text-sm font-normal">
+      <Clock className="w-4 h-4 text-muted-foreground" />
+      <span>
+        Time window {formatRunOffset(from - runStart)}–{formatRunOffset(to - runStart)}
+        <span className="text-muted-foreground">
+          {' '}({new Date(from).toLocaleTimeString()}–{new Date(to).toLocaleTimeString()})
+        </span>
+      </span>
+      <Button variant="ghost" size="icon" className="h-6 w-6 rounded-full" onClick={onClear} aria-label="Remove time window">
+        <X className="w-3 h-3" />
+      </Button>
+    </Badge>
+  );
+};
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ArrowUpDown, ArrowUp, ArrowDown, Columns3 } from "lucide-react";
+import { DeltaBadge } from "@/components/DeltaBadge";
+import { VerdictBadge } from "@/components/VerdictBadge";
+import { TransactionDelta } from "@/utils/comparison";
+import { RegressionResult, RegressionVerdict } from "@/utils/regression";
+import {
+  TRANSACTION_COLUMNS,
+  TransactionColumnId,
+  loadVisibleColumns,
+  saveVisibleColumns
+} from "@/utils/transactionColumns";
+
+interface TransactionComparisonTableProps {
+  deltas: TransactionDelta[];
+  verdicts?: Map<string, RegressionResult>;
+}
+
+type SortField = 'label' | 'verdict' | TransactionColumnId;
+type SortDirection = 'asc' | 'desc';
+
+// Sort order for the verdict column, most actionable first when descending
+const VERDICT_RANK: Record<RegressionVerdict, number> = {
+  regressed: 3,
+  inconclusive: 2,
+  improved: 1,
+  unchanged: 0
+};
+
+export const TransactionComparisonTable = ({ deltas, verdicts }: TransactionComparisonTableProps) => {
+  const [sortField, setSortField] = useState<SortField>('avgResponseTime');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  // Shares its columns with the transaction table of the report
+  const [visibleColumns, setVisibleColumns] = useState<TransactionColumnId[]>(loadVisibleColumns);
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection('desc');
+    }
+  };
+
+  const handleColumnToggle = (id: TransactionColumnId, visible: boolean) => {
+    const ids = TRANSACTION_COLUMNS
+      .filter(column => (column.id === id ? visible : visibleColumns.includes(column.id)))
+      .map(column => column.id);
+    setVisibleColumns(ids);
+    saveVisibleColumns(ids);
+  };
+
+  const getSortIcon = (field: SortField) => {
+    if (sortField !== field) return <ArrowUpDown className="w-4 h-4" />;
+    return sortDirection === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />;
+  };
+
+  // Numeric columns sort by relative change so the biggest regressions surface first
+  const sortedDeltas = [...deltas].sort((a, b) => {
+    const multiplier = sortDirection === 'asc' ? 1 : -1;
+    if (sortField === 'label') return multiplier * a.label.localeCompare(b.label);
+    if (sortField === 'verdict') {
+      const rank = (delta: TransactionDelta) => {
+        const result = verdicts?.get(delta.label);
+        return result ? VERDICT_RANK[result.verdict] : -1;
+      };
+      return multiplier * (rank(a) - rank(b));
+    }
+    const change = (delta: TransactionDelta) => delta[sortField].percent ?? delta[sortField].absolute;
+    return multiplier * (change(a) - change(b));
+  });
+
+  const columns = TRANSACTION_COLUMNS.filter(column => visibleColumns.includes(column.id));
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-foreground">Transaction Comparison</CardTitle>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="flex items-center gap-2">
+                <Columns3 className="w-4 h-4" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {TRANSACTION_COLUMNS.map(column => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={visibleColumns.includes(column.id)}
+                  onCheckedChange={(checked) => handleColumnToggle(column.id, checked)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {column.title}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-lg border overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">
+                  <Button
+                    variant="ghost"
+                    onClick={() => handleSort('label')}
+                    className="h-auto p-0 font-semibold justify-start gap-2 text-foreground"
+                  >
+                    Transaction
+                    {getSortIcon('label')}
+                  </Button>
+                </TableHead>
+                {verdicts && (
+                  <TableHead className="font-semibold">
+                    <Button
+                      variant="ghost"
+                      onClick={() => handleSort('verdict')}
+                      className="h-auto p-0 font-semibold justify-start gap-2 text-foreground"
+                    >
+                      Verdict
+                      {getSortIcon('verdict')}
+                    </Button>
+                  </TableHead>
+                )}
+                {columns.map(column => (
+                  <TableHead key={column.id} className="font-semibold text-right">
+                    <Button
+                      variant="ghost"
+                      onClick={() => handleSort(column.id)}
+                      className="h-auto p-0 font-semibold justify-end gap-2 text-foreground ml-auto flex"
+                    >
+                      {column.title}
+                      {getSortIcon(column.id)}
+                    </Button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedDeltas.map(delta => (
+                <TableRow key={delta.label} className="hover:bg-muted/30 transition-colors">
+                  <TableCell className="font-medium max-w-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate" title={delta.label}>{delta.label}</span>
+                      {!delta.baseline && <Badge variant="secondary">New</Badge>}
+                      {!delta.candidate && <Badge variant="outline">Removed</Badge>}
+                    </div>
+                  </TableCell>
+                  {verdicts && (
+                    <TableCell>
+                      {verdicts.has(delta.label) ? (
+                        <VerdictBadge result={verdicts.get(delta.label)!} />
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  )}
+                  {columns.map(column => (
+                    <TableCell key={column.id} className="text-right">
+                      <div className="font-mono text-sm text-muted-foreground">
+                        {column.format(delta[column.id].baseline)} → <span className="text-foreground">{column.format(delta[column.id].candidate)}</span>
+                      </div>
+                      <DeltaBadge delta={delta[column.id]} format={column.format} />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {deltas.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No transaction data available
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,116 @@
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { TrendMetricDefinition, TrendPoint } from "@/utils/trends";
+
+interface TrendChartProps {
+  definition: TrendMetricDefinition;
+  points: TrendPoint[];
+  threshold?: number;
+  onThresholdChange: (threshold: number | undefined) => void;
+}
+
+interface TrendDotProps {
+  cx?: number;
+  cy?: number;
+  payload?: TrendPoint;
+}
+
+// Threshold breaches outrank drifting out of the moving baseline
+const TrendDot = ({ cx, cy, payload }: TrendDotProps) => {
+  if (cx === undefined || cy === undefined || !payload || payload.value === null) return null;
+  const color = payload.breached
+    ? 'hsl(var(--error))'
+    : payload.outsideBand
+      ? 'hsl(var(--warning))'
+      : 'hsl(var(--primary))';
+  const radius = payload.breached || payload.outsideBand ? 6 : 3;
+  return <circle cx={cx} cy={cy} r={radius} fill={color} stroke="hsl(var(--card))" strokeWidth={1} />;
+};
+
+export const TrendChart = ({ definition, points, threshold, onThresholdChange }: TrendChartProps) => {
+  const formatValue = (value: number) => {
+    if (definition.unit === 'ms') return `${value.toFixed(0)}ms`;
+    return `${value.toFixed(2)}${definition.unit === '%' ? '%' : ` ${definition.unit}`}`;
+  };
+
+  const breaches = points.filter(point => point.breached).length;
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-foreground">{definition.title}</CardTitle>
+          <Input
+            type="number"
+            min={0}
+            className="w-36 h-8"
+            placeholder={`${definition.higherIsWorse ? 'Max' : 'Min'} (${definition.unit})`}
+            value={threshold ?? ''}
+            onChange={(event) => onThresholdChange(event.target.value === '' ? undefined : Number(event.target.value))}
+            aria-label={`${definition.title} threshold`}
+          />
+        </div>
+        {threshold !== undefined && (
+          <p className="text-sm text-muted-foreground">
+            {breaches === 0 ? 'No run broke the threshold' : `${breaches} run${breaches === 1 ? '' : 's'} broke the threshold`}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={260}>
+          <ComposedChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground) / 0.2)" />
+            <XAxis dataKey="x" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                boxShadow: 'var(--shadow-elegant)'
+              }}
+              labelFormatter={(_, payload) => payload?.[0]?.payload?.name ?? ''}
+              formatter={(value: number | [number, number], name: string) =>
+                Array.isArray(value)
+                  ? [`${formatValue(value[0])} – ${formatValue(value[1])}`, name]
+                  : [formatValue(value), name]
+              }
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+            />
+            <Area
+              type="monotone"
+              dataKey="band"
+              name="Expected range"
+              stroke="none"
+              fill="hsl(var(--muted-foreground))"
+              fillOpacity={0.15}
+              connectNulls
+            />
+            <Line
+              type="monotone"
+              dataKey="baseline"
+              name="Moving baseline"
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="5 5"
+              dot={false}
+              connectNulls
+            />
+            <Line
+              type="monotone"
+              dataKey="value"
+              name={definition.title}
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              dot={<TrendDot />}
+              connectNulls
+            />
+            {threshold !== undefined && (
+              <ReferenceLine y={threshold} stroke="hsl(var(--error))" strokeDasharray="3 3" />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
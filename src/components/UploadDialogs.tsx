@@ -0,0 +1,40 @@
+import { ColumnMappingWizard } from "@/components/ColumnMappingWizard";
+import { ArchiveEntryPicker } from "@/components/ArchiveEntryPicker";
+import { useApp } from "@/contexts/AppContext";
+
+/** Follow-up dialogs an upload may need: picking files from an archive, or mapping unknown columns. */
+export const UploadDialogs = () => {
+  const {
+    mappingRequest,
+    applyColumnMapping,
+    dismissColumnMapping,
+    archiveRequest,
+    selectArchiveEntries,
+    dismissArchiveSelection
+  } = useApp();
+
+  return (
+    <>
+      {mappingRequest && (
+        <ColumnMappingWizard
+          key={mappingRequest.sources.map(source => source.name).join('|')}
+          open
+          fileName={mappingRequest.sources[0].name}
+          debugInfo={mappingRequest.debugInfo}
+          onApply={applyColumnMapping}
+          onCancel={dismissColumnMapping}
+        />
+      )}
+
+      {archiveRequest && (
+        <ArchiveEntryPicker
+          open
+          archiveName={archiveRequest.file.name}
+          entries={archiveRequest.entries}
+          onSelect={selectArchiveEntries}
+          onCancel={dismissArchiveSelection}
+        />
+      )}
+    </>
+  );
+};
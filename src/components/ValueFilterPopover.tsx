@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ValueFilter } from "@/utils/jtlParser";
+import { valueFilterError } from "@/utils/recordFilter";
+import { AlertCircle, ChevronDown } from "lucide-react";
+
+interface ValueFilterPopoverProps {
+  title: string;
+  /** Values present in the run, offered as checkboxes */
+  values: string[];
+  filter?: ValueFilter;
+  onChange: (filter: ValueFilter | undefined) => void;
+}
+
+// Long label lists are searched rather than scrolled through in full
+const MAX_LISTED = 200;
+
+type ListName = 'include' | 'exclude';
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const ValueFilterPopover = ({ title, values, filter, onChange }: ValueFilterPopoverProps) => {
+  const [search, setSearch] = useState('');
+  const [patterns, setPatterns] = useState({ include: '', exclude: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const include = filter?.include ?? [];
+  const exclude = filter?.exclude ?? [];
+  const regex = !!filter?.regex;
+  const activeCount = include.length + exclude.length;
+  const switchId = `${title.toLowerCase().replace(/\s+/g, '-')}-regex`;
+
+  const listed = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return values.filter(value => value.toLowerCase().includes(query)).slice(0, MAX_LISTED);
+  }, [values, search]);
+
+  const update = (next: ValueFilter) => {
+    const empty = !next.include?.length && !next.exclude?.length;
+    onChange(empty && !next.regex ? undefined : next);
+  };
+
+  const toggleValue = (list: ListName, value: string, checked: boolean) => {
+    const other: ListName = list === 'include' ? 'exclude' : 'include';
+    const current = list === 'include' ? include : exclude;
+    const otherCurrent = list === 'include' ? exclude : include;
+    update({
+      [list]: checked ? [...current, value] : current.filter(entry => entry !== value),
+      // A value is either included or excluded, never both
+      [other]: otherCurrent.filter(entry => entry !== value)
+    });
+  };
+
+  const changePatterns = (list: ListName, text: string) => {
+    const next = { ...patterns, [list]: text };
+    setPatterns(next);
+    const candidate: ValueFilter = { include: splitLines(next.include), exclude: splitLines(next.exclude), regex: true };
+    const message = valueFilterError(candidate);
+    setError(message);
+    if (!message) update(candidate);
+  };
+
+  // Pattern drafts start from the applied filter, which a preset may have replaced
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setPatterns({
+      include: (regex ? include : []).join('\n'),
+      exclude: (regex ? exclude : []).join('\n')
+    });
+    setError(null);
+  };
+
+  const changeMode = (useRegex: boolean) => {
+    setPatterns({ include: '', exclude: '' });
+    setError(null);
+    onChange(useRegex ? { regex: true } : undefined);
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          {title}
+          {activeCount > 0 && <Badge variant="secondary" className="px-1.5">{activeCount}</Badge>}
+          <ChevronDown className="w-3 h-3 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Switch id={switchId} checked={regex} onCheckedChange={changeMode} />
+            <Label htmlFor={switchId}>Regular expressions</Label>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => changeMode(regex)} disabled={activeCount === 0}>
+            Clear
+          </Button>
+        </div>
+
+        {regex ? (
+          <div className="space-y-3">
+            {(['include', 'exclude'] as const).map(list => (
+              <div key={list} className="space-y-1">
+                <Label>{list === 'include' ? 'Include matches of' : 'Exclude matches of'}</Label>
+                <Textarea
+                  rows={3}
+                  className="font-mono text-xs"
+                  placeholder="One pattern per line"
+                  value={patterns[list]}
+                  onChange={(event) => changePatterns(list, event.target.value)}
+                />
+              </div>
+            ))}
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-warning">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Input placeholder="Search" value={search} onChange={(event) => setSearch(event.target.value)} className="h-8" />
+            <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-3 gap-y-1 max-h-64 overflow-y-auto text-sm">
+              <span className="text-xs text-muted-foreground">Value</span>
+              <span className="text-xs text-muted-foreground">Include</span>
+              <span className="text-xs text-muted-foreground">Exclude</span>
+              {listed.map(value => (
+                <div key={value} className="contents">
+                  <span className="truncate" title={value}>{value}</span>
+                  <Checkbox
+                    className="justify-self-center"
+                    checked={include.includes(value)}
+                    onCheckedChange={(checked) => toggleValue('include', value, checked === true)}
+                  />
+                  <Checkbox
+                    className="justify-self-center"
+                    checked={exclude.includes(value)}
+                    onCheckedChange={(checked) => toggleValue('exclude', value, checked === true)}
+                  />
+                </div>
+              ))}
+            </div>
+            {listed.length === MAX_LISTED && (
+              <p className="text-xs text-muted-foreground">Showing the first {MAX_LISTED}; search to narrow the list</p>
+            )}
+            {values.length === 0 && <p className="text-sm text-muted-foreground">No values in this run</p>}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
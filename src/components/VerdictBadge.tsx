@@ -0,0 +1,37 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { RegressionResult, RegressionVerdict, formatPValue } from "@/utils/regression";
+
+interface VerdictBadgeProps {
+  result: RegressionResult;
+}
+
+const VERDICT_STYLES: Record<RegressionVerdict, string> = {
+  regressed: 'bg-error/10 text-error border-error/30',
+  improved: 'bg-success/10 text-success border-success/30',
+  unchanged: 'bg-muted text-muted-foreground border-border',
+  inconclusive: 'bg-warning/10 text-warning border-warning/30'
+};
+
+export const VerdictBadge = ({ result }: VerdictBadgeProps) => {
+  const { estimate, lower, upper } = result.p95Delta;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`capitalize cursor-help ${VERDICT_STYLES[result.verdict]}`}>
+          {result.verdict}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs space-y-1 text-xs">
+        <p className="font-medium">{result.reason}</p>
+        <p className="font-mono">
+          {formatPValue(result.pValue)} • effect {result.effectSize.toFixed(2)}
+        </p>
+        <p className="font-mono">
+          p95 {estimate >= 0 ? '+' : ''}{estimate.toFixed(0)}ms (95% CI {lower.toFixed(0)} to {upper.toFixed(0)}ms)
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
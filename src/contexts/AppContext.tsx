@@ -1,15 +1,49 @@
-import { createContext, useContext, useState, ReactNode } from "react";
-import { JTLParser } from "@/utils/jtlParser";
+import { createContext, useContext, useState, useRef, ReactNode } from "react";
+import { ColumnMapping, JTLParser, ParseResult, RecordFilter } from "@/utils/jtlParser";
+import { parseFilesInWorker, ParseCancelledError, ParseProgress } from "@/utils/jtlWorkerClient";
+import { JTLSource, ZipEntry, detectArchiveType, filterResultEntries, listZipEntries, openZipEntry } from "@/utils/archive";
+import { MAX_KEPT_RECORDS, findSavedRun, getRun, getRunRecords, loadKeepRecords, saveRun } from "@/utils/runHistory";
+import { loadPercentiles } from "@/utils/percentiles";
 import { toast } from "@/hooks/use-toast";
 
+/** Which run an upload is for: the run under analysis, or the baseline it is compared against */
+export type RunTarget = 'candidate' | 'baseline';
+
 interface AppContextType {
   parser: JTLParser | null;
   fileName: string;
+  baselineParser: JTLParser | null;
+  baselineFileName: string;
+  processingName: string;
   isProcessing: boolean;
+  parseProgress: ParseProgress | null;
+  cancelProcessing: () => void;
   showResetConfirmation: boolean;
   setShowResetConfirmation: (show: boolean) => void;
-  handleFileUpload: (file: File) => Promise<void>;
+  filter: RecordFilter;
+  setFilter: (filter: RecordFilter) => void;
+  handleFileUpload: (files: File[], target?: RunTarget) => Promise<void>;
   handleReset: () => void;
+  clearBaseline: () => void;
+  openRun: (id: string, target?: RunTarget) => Promise<boolean>;
+  mappingRequest: MappingRequest | null;
+  applyColumnMapping: (mapping: ColumnMapping) => void;
+  dismissColumnMapping: () => void;
+  archiveRequest: ArchiveRequest | null;
+  selectArchiveEntries: (entries: ZipEntry[]) => Promise<void>;
+  dismissArchiveSelection: () => void;
+}
+
+interface MappingRequest {
+  target: RunTarget;
+  sources: JTLSource[];
+  debugInfo: ParseResult['debugInfo'];
+}
+
+interface ArchiveRequest {
+  target: RunTarget;
+  file: File;
+  entries: ZipEntry[];
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -29,31 +63,189 @@ interface AppProviderProps {
 export const AppProvider = ({ children }: AppProviderProps) => {
   const [parser, setParser] = useState<JTLParser | null>(null);
   const [fileName, setFileName] = useState<string>("");
+  const [filter, setFilter] = useState<RecordFilter>({});
+  const [baselineParser, setBaselineParser] = useState<JTLParser | null>(null);
+  const [baselineFileName, setBaselineFileName] = useState<string>("");
+  const [processingName, setProcessingName] = useState<string>("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
   const [showResetConfirmation, setShowResetConfirmation] = useState(false);
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(null);
+  const [archiveRequest, setArchiveRequest] = useState<ArchiveRequest | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const saveToHistory = async (runParser: JTLParser, name: string) => {
+    try {
+      const summary = runParser.getSummary(loadPercentiles());
+      // Loading the same results again, as a baseline for instance, adds no second entry to skew trends
+      if (await findSavedRun(name, summary)) return;
+      const keepRecords = loadKeepRecords() && runParser.getRecordCount() <= MAX_KEPT_RECORDS;
+      const run = await saveRun(
+        { name, date: summary.startTime || Date.now(), tags: [], environment: '', notes: '' },
+        summary,
+        keepRecords ? runParser.getStore().toSnapshot() : undefined
+      );
+      if (keepRecords && !run.hasRecords) {
+        toast({
+          title: "Raw Samples Not Saved",
+          description: `${name} was saved to the run history without its raw samples, which did not fit in the browser's storage.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error saving run to history:', error);
+      toast({
+        title: "Run Not Saved",
+        description: `Could not save ${name} to the run history. ${error instanceof Error ? error.message : ''}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openRun = async (id: string, target: RunTarget = 'candidate') => {
+    try {
+      const run = await getRun(id);
+      if (!run) throw new Error('The run no longer exists.');
+
+      const snapshot = run.hasRecords ? await getRunRecords(id) : undefined;
+      const runParser = snapshot ? JTLParser.fromSnapshot(snapshot) : JTLParser.fromSummary(run.summary);
+
+      if (target === 'baseline') {
+        setBaselineParser(runParser);
+        setBaselineFileName(run.name);
+      } else {
+        setParser(runParser);
+        setFileName(run.name);
+        setFilter({});
+      }
+      toast({
+        title: "Run Opened",
+        description: snapshot
+          ? `Loaded ${run.summary.recordCount.toLocaleString()} performance records from ${run.name}`
+          : `Loaded the summary of ${run.name}; its raw samples were not kept, so filters are unavailable`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error opening run:', error);
+      toast({
+        title: "Could Not Open Run",
+        description: error instanceof Error ? error.message : "Failed to load the run from history.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleFileUpload = async (files: File[], target: RunTarget = 'candidate') => {
+    setArchiveRequest(null);
+
+    try {
+      const sources: JTLSource[] = [];
+
+      for (const file of files) {
+        const archiveType = await detectArchiveType(file);
+
+        if (archiveType === 'zip') {
+          const entries = filterResultEntries(await listZipEntries(file));
+          if (entries.length === 0) {
+            toast({
+              title: "No Results Found",
+              description: `${file.name} does not contain any .jtl, .csv or .xml files.`,
+              variant: "destructive",
+            });
+            continue;
+          }
+          // Let the user choose which of the archived results to analyze
+          if (files.length === 1 && entries.length > 1) {
+            setArchiveRequest({ target, file, entries });
+            return;
+          }
+          for (const entry of entries) {
+            sources.push(await openZipEntry(file, entry));
+          }
+          continue;
+        }
+
+        sources.push({ name: file.name, blob: file, compression: archiveType === 'gzip' ? 'gzip' : undefined });
+      }
+
+      if (sources.length > 0) {
+        await parseSources(sources, target);
+      }
+    } catch (error) {
+      console.error('Archive processing error:', error);
+      toast({
+        title: "Processing Error",
+        description: `Failed to open the uploaded files. ${error instanceof Error ? error.message : ''}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectArchiveEntries = async (entries: ZipEntry[]) => {
+    if (!archiveRequest) return;
+    const { target, file } = archiveRequest;
+    setArchiveRequest(null);
+
+    try {
+      const sources: JTLSource[] = [];
+      for (const entry of entries) {
+        sources.push(await openZipEntry(file, entry));
+      }
+      await parseSources(sources, target);
+    } catch (error) {
+      console.error('Archive processing error:', error);
+      toast({
+        title: "Processing Error",
+        description: `Failed to extract results from ${file.name}. ${error instanceof Error ? error.message : ''}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const dismissArchiveSelection = () => {
+    setArchiveRequest(null);
+  };
+
+  const parseSources = async (sources: JTLSource[], target: RunTarget, mapping?: ColumnMapping) => {
+    abortControllerRef.current?.abort();
+    setMappingRequest(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
-  const handleFileUpload = async (file: File) => {
     setIsProcessing(true);
-    setFileName(file.name);
+    const name = sources.length === 1 ? sources[0].name : `${sources[0].name} and ${sources.length - 1} more`;
+    setParseProgress({ bytesRead: 0, totalBytes: sources.reduce((sum, source) => sum + source.blob.size, 0), rows: 0 });
+    setProcessingName(name);
     
     try {
-      const content = await file.text();
-      const newParser = new JTLParser();
-      const parseResult = newParser.parseFile(content);
+      const { parser: newParser, result: parseResult, emptySources } = await parseFilesInWorker(sources, {
+        mapping,
+        onProgress: setParseProgress,
+        signal: abortController.signal,
+      });
       
       if (!parseResult.success) {
         const debugInfo = parseResult.debugInfo;
         console.log('Parse failed. Debug info:', debugInfo);
         
+        // Delimited files with unrecognized columns can still be mapped by hand
+        const canMapColumns = debugInfo.detectedFormat === 'csv' && debugInfo.previewLines.length > 0;
+        if (canMapColumns) {
+          setMappingRequest({ target, sources, debugInfo });
+        }
+
         toast({
           title: "Invalid File",
-          description: parseResult.error || "No valid performance data found in the uploaded file.",
+          description: canMapColumns
+            ? `${parseResult.error || "No valid performance data found in the uploaded file."} Map the columns manually to continue.`
+            : parseResult.error || "No valid performance data found in the uploaded file.",
           variant: "destructive",
         });
         
         // Show detailed debug information in console
         console.log(`File parsing details:
           - Total lines: ${debugInfo.totalLines}
+          - Format: ${debugInfo.detectedFormat}
           - Header: ${debugInfo.headerLine}
           - Detected delimiter: "${debugInfo.detectedDelimiter}"
           - Detected headers: ${debugInfo.detectedHeaders.join(', ')}
@@ -61,16 +253,42 @@ export const AppProvider = ({ children }: AppProviderProps) => {
           - Valid records: ${debugInfo.validRecords}
           - Sample record:`, debugInfo.sampleRecord);
         
-        setIsProcessing(false);
         return;
       }
       
-      setParser(newParser);
+      if (target === 'baseline') {
+        setBaselineParser(newParser);
+        setBaselineFileName(name);
+      } else {
+        setParser(newParser);
+        setFileName(name);
+        setFilter({});
+      }
       toast({
         title: "File Processed Successfully",
-        description: `Loaded ${parseResult.records.length.toLocaleString()} performance records from ${file.name}`,
+        description: sources.length === 1
+          ? `Loaded ${parseResult.recordCount.toLocaleString()} performance records from ${name}`
+          : `Merged ${parseResult.recordCount.toLocaleString()} performance records from ${sources.length} files`,
       });
+      if (emptySources.length > 0) {
+        toast({
+          title: "Some Files Were Skipped",
+          description: `No valid performance data found in ${emptySources.join(', ')}`,
+          variant: "destructive",
+        });
+      }
+      saveToHistory(newParser, name);
     } catch (error) {
+      if (error instanceof ParseCancelledError) {
+        // A newer upload superseded this one; leave its state alone
+        if (abortControllerRef.current === abortController) {
+          toast({
+            title: "Processing Cancelled",
+            description: `Stopped processing ${name}`,
+          });
+        }
+        return;
+      }
       console.error('File processing error:', error);
       toast({
         title: "Processing Error",
@@ -78,30 +296,77 @@ export const AppProvider = ({ children }: AppProviderProps) => {
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+        setParseProgress(null);
+        setProcessingName("");
+      }
     }
   };
 
+  const applyColumnMapping = (mapping: ColumnMapping) => {
+    if (!mappingRequest) return;
+    parseSources(mappingRequest.sources, mappingRequest.target, mapping);
+  };
+
+  const dismissColumnMapping = () => {
+    setMappingRequest(null);
+  };
+
+  const cancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleReset = () => {
+    // Let go of the parse first, so it neither reports a cancellation nor cleans up after the reset
+    const abortController = abortControllerRef.current;
+    abortControllerRef.current = null;
+    abortController?.abort();
     setParser(null);
     setFileName("");
+    setFilter({});
+    setBaselineParser(null);
+    setBaselineFileName("");
     setIsProcessing(false);
+    setParseProgress(null);
+    setProcessingName("");
     toast({
       title: "Reset Complete",
       description: "You can now upload a new JTL file",
     });
   };
 
+  const clearBaseline = () => {
+    setBaselineParser(null);
+    setBaselineFileName("");
+  };
+
   return (
     <AppContext.Provider
       value={{
         parser,
         fileName,
+        baselineParser,
+        baselineFileName,
+        processingName,
         isProcessing,
+        parseProgress,
+        cancelProcessing,
         showResetConfirmation,
         setShowResetConfirmation,
+        filter,
+        setFilter,
         handleFileUpload,
         handleReset,
+        clearBaseline,
+        openRun,
+        mappingRequest,
+        applyColumnMapping,
+        dismissColumnMapping,
+        archiveRequest,
+        selectArchiveEntries,
+        dismissArchiveSelection,
       }}
     >
       {children}
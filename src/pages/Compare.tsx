@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { FileDropZone } from "@/components/FileDropZone";
+import { PerformanceChart } from "@/components/PerformanceChart";
+import { DistributionChart, DistributionRun } from "@/components/DistributionChart";
+import { MetricsComparison } from "@/components/MetricsComparison";
+import { TransactionComparisonTable } from "@/components/TransactionComparisonTable";
+import { RegressionSummary } from "@/components/RegressionSummary";
+import { UploadDialogs } from "@/components/UploadDialogs";
+import { ParseProgressBar } from "@/components/ParseProgressBar";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { useApp } from "@/contexts/AppContext";
+import { alignChartData, compareMetrics, compareTransactions } from "@/utils/comparison";
+import { loadPercentiles } from "@/utils/percentiles";
+import { DEFAULT_REGRESSION_OPTIONS, DistributionTest, OVERALL_LABEL, RegressionResult } from "@/utils/regression";
+import { RegressionCancelledError, compareDistributionsInWorker } from "@/utils/regressionWorkerClient";
+import { GitCompare, X } from "lucide-react";
+
+const COMPARISON_CHARTS = [
+  { title: 'Response Time Over Time', type: 'response-time' },
+  { title: 'Throughput Over Time', type: 'throughput' },
+  { title: 'Response Time Percentiles', type: 'percentiles' },
+  { title: 'Errors Over Time', type: 'errors' }
+] as const;
+
+const Compare = () => {
+  const { parser, fileName, baselineParser, baselineFileName, handleFileUpload, clearBaseline } = useApp();
+  const [test, setTest] = useState<DistributionTest>(DEFAULT_REGRESSION_OPTIONS.test);
+  const [percentiles] = useState<number[]>(loadPercentiles);
+
+  const comparison = useMemo(() => {
+    if (!parser || !baselineParser) return null;
+    try {
+      return {
+        metrics: compareMetrics(baselineParser.calculateMetrics(), parser.calculateMetrics()),
+        transactions: compareTransactions(baselineParser.getTransactionBreakdown(), parser.getTransactionBreakdown()),
+        chartData: alignChartData(
+          baselineParser.generateChartData(30, undefined, percentiles),
+          parser.generateChartData(30, undefined, percentiles)
+        )
+      };
+    } catch (error) {
+      console.error('Error comparing runs:', error);
+      return null;
+    }
+  }, [parser, baselineParser, percentiles]);
+
+  // Distributions need raw samples too; the baseline comes first so it is drawn dashed
+  const distributionRuns = useMemo((): DistributionRun[] | null => {
+    const baseline = baselineParser?.getResponseTimeHistograms();
+    const candidate = parser?.getResponseTimeHistograms();
+    if (!baseline || !candidate) return null;
+    return [
+      { name: 'Baseline', histograms: baseline },
+      { name: 'Candidate', histograms: candidate }
+    ];
+  }, [parser, baselineParser]);
+
+  // Distribution tests need raw samples, which summary-only runs lack
+  const canAssess = !!parser && !!baselineParser && !parser.isSummaryOnly() && !baselineParser.isSummaryOnly();
+  const [regressionResults, setRegressionResults] = useState<RegressionResult[] | null>(null);
+
+  // The bootstrap takes seconds with many transactions, so it runs in a worker
+  useEffect(() => {
+    setRegressionResults(null);
+    if (!canAssess) return;
+    const controller = new AbortController();
+    compareDistributionsInWorker(baselineParser, parser, { ...DEFAULT_REGRESSION_OPTIONS, test }, controller.signal)
+      .then(setRegressionResults)
+      .catch(error => {
+        if (!(error instanceof RegressionCancelledError)) console.error('Error computing regression verdicts:', error);
+      });
+    return () => controller.abort();
+  }, [parser, baselineParser, canAssess, test]);
+
+  const regression = useMemo(() => {
+    if (!regressionResults) return null;
+    return {
+      overall: regressionResults.find(result => result.label === OVERALL_LABEL)!,
+      transactions: regressionResults.filter(result => result.label !== OVERALL_LABEL),
+      byLabel: new Map(regressionResults.map(result => [result.label, result]))
+    };
+  }, [regressionResults]);
+
+  if (!parser) {
+    return (
+      <div className="container mx-auto px-6 py-16 text-center space-y-4">
+        <h1 className="text-3xl font-bold text-foreground">Compare Runs</h1>
+        <p className="text-muted-foreground">Load the run you want to analyze first, then pick a baseline to compare it against.</p>
+        <Button asChild>
+          <Link to="/">Load a Run</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!baselineParser || !comparison) {
+    return (
+      <div className="container mx-auto px-6 py-16">
+        <div className="max-w-2xl mx-auto">
+          <div className="text-center mb-8">
+            <h2 className="text-3xl font-bold text-foreground mb-4">
+              Choose a Baseline
+            </h2>
+            <p className="text-muted-foreground text-lg">
+              Upload the JTL results of an earlier run to compare against {fileName}
+            </p>
+          </div>
+
+          <FileDropZone onFileUpload={(files) => handleFileUpload(files, 'baseline')} />
+
+          <p className="text-center text-sm text-muted-foreground mt-4">
+            Or pick a saved run from the <Link to="/history" className="text-primary hover:underline">run history</Link>
+          </p>
+
+          <UploadDialogs />
+          <ParseProgressBar />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-background">
+      {/* Header */}
+      <div className="bg-gradient-primary text-primary-foreground">
+        <div className="container mx-auto px-6 py-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+            <div>
+              <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+                <GitCompare className="w-7 h-7" />
+                Run Comparison
+              </h1>
+              <p className="text-primary-foreground/80">
+                Baseline {baselineFileName} • Candidate {fileName}
+              </p>
+            </div>
+            <div className="mt-4 md:mt-0">
+              <Button variant="secondary" onClick={clearBaseline} className="flex items-center gap-2">
+                <X className="w-4 h-4" />
+                Change Baseline
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-6 py-8 space-y-8">
+        {regression ? (
+          <RegressionSummary
+            overall={regression.overall}
+            transactions={regression.transactions}
+            test={test}
+            onTestChange={setTest}
+          />
+        ) : canAssess && (
+          <Card className="bg-gradient-card shadow-card">
+            <CardHeader>
+              <CardTitle className="text-foreground">Regression Verdict</CardTitle>
+              <p className="text-sm text-muted-foreground">Running the distribution tests…</p>
+            </CardHeader>
+          </Card>
+        )}
+
+        <MetricsComparison deltas={comparison.metrics} />
+
+        {/* Both runs are plotted against elapsed test time so they line up */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {COMPARISON_CHARTS.map(chart => (
+            <PerformanceChart
+              key={chart.type}
+              data={comparison.chartData}
+              title={chart.title}
+              type={chart.type}
+              percentiles={percentiles}
+              showBaseline
+            />
+          ))}
+          {distributionRuns && (
+            <>
+              <DistributionChart title="Response Time Percentile Curve" type="cdf" runs={distributionRuns} />
+              <DistributionChart title="Response Time Distribution" type="histogram" runs={distributionRuns} />
+            </>
+          )}
+        </div>
+
+        <TransactionComparisonTable deltas={comparison.transactions} verdicts={regression?.byLabel} />
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
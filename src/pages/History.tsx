@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmationDialog } from "@/components/ConfirmationDialog";
+import { RunMetadataDialog } from "@/components/RunMetadataDialog";
+import { useApp } from "@/contexts/AppContext";
+import { toast } from "@/hooks/use-toast";
+import {
+  MAX_KEPT_RECORDS,
+  RunMetadata,
+  StoredRun,
+  deleteRun,
+  listRuns,
+  loadKeepRecords,
+  matchesSearch,
+  saveKeepRecords,
+  updateRun
+} from "@/utils/runHistory";
+import { FolderOpen, GitCompare, History as HistoryIcon, Pencil, Search, Trash2 } from "lucide-react";
+
+const History = () => {
+  const navigate = useNavigate();
+  const { parser, openRun } = useApp();
+  const [runs, setRuns] = useState<StoredRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [keepRecords, setKeepRecords] = useState(loadKeepRecords);
+  const [editingRun, setEditingRun] = useState<StoredRun | null>(null);
+  const [deletingRun, setDeletingRun] = useState<StoredRun | null>(null);
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(error => {
+        console.error('Error loading run history:', error);
+        toast({
+          title: "History Unavailable",
+          description: "Could not read saved runs from this browser's storage.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filteredRuns = useMemo(() => runs.filter(run => matchesSearch(run, search)), [runs, search]);
+
+  const handleKeepRecordsChange = (keep: boolean) => {
+    setKeepRecords(keep);
+    saveKeepRecords(keep);
+  };
+
+  const handleOpen = async (run: StoredRun) => {
+    if (await openRun(run.id)) navigate('/');
+  };
+
+  const handleCompare = async (run: StoredRun) => {
+    if (await openRun(run.id, 'baseline')) navigate('/compare');
+  };
+
+  const handleSaveMetadata = async (metadata: RunMetadata) => {
+    if (!editingRun) return;
+    try {
+      const updated = await updateRun(editingRun.id, metadata);
+      if (updated) {
+        setRuns(current => current.map(run => run.id === updated.id ? updated : run).sort((a, b) => b.date - a.date));
+      }
+      setEditingRun(null);
+    } catch (error) {
+      console.error('Error updating run:', error);
+      toast({
+        title: "Update Failed",
+        description: `Could not save changes to ${editingRun.name}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRun) return;
+    const run = deletingRun;
+    setDeletingRun(null);
+    try {
+      await deleteRun(run.id);
+      setRuns(current => current.filter(other => other.id !== run.id));
+      toast({
+        title: "Run Deleted",
+        description: `${run.name} was removed from the history`,
+      });
+    } catch (error) {
+      console.error('Error deleting run:', error);
+      toast({
+        title: "Delete Failed",
+        description: `Could not delete ${run.name}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            <HistoryIcon className="w-7 h-7 text-primary" />
+            Run History
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Every analyzed run is saved in this browser. Reopen one to analyze it again or use it as a baseline.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="keep-records" checked={keepRecords} onCheckedChange={handleKeepRecordsChange} />
+          <Label htmlFor="keep-records">
+            Keep raw samples of new runs up to {MAX_KEPT_RECORDS.toLocaleString()} samples
+          </Label>
+        </div>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          className="pl-9"
+          placeholder="Search by name, build, tag, environment or notes"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading saved runs...</p>
+      ) : filteredRuns.length === 0 ? (
+        <Card className="bg-gradient-card shadow-card">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {runs.length === 0 ? 'No runs saved yet. Upload a JTL file to start your history.' : 'No runs match your search.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {filteredRuns.map(run => (
+            <Card key={run.id} className="bg-gradient-card shadow-card">
+              <CardContent className="p-6">
+                <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                  <div className="space-y-2 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h2 className="text-lg font-semibold text-foreground truncate">{run.name}</h2>
+                      {run.buildNumber && <Badge variant="secondary">Build {run.buildNumber}</Badge>}
+                      {run.environment && <Badge variant="secondary">{run.environment}</Badge>}
+                      {run.tags.map(tag => (
+                        <Badge key={tag} variant="outline">{tag}</Badge>
+                      ))}
+                      {!run.hasRecords && <Badge variant="outline" className="text-muted-foreground">Summary only</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(run.date).toLocaleString()} • {run.summary.recordCount.toLocaleString()} samples •{' '}
+                      avg {run.summary.metrics.avgResponseTime.toFixed(0)}ms • p95 {run.summary.metrics.p95ResponseTime.toFixed(0)}ms •{' '}
+                      {run.summary.metrics.errorRate.toFixed(2)}% errors
+                    </p>
+                    {run.notes && <p className="text-sm text-foreground whitespace-pre-line">{run.notes}</p>}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 shrink-0">
+                    <Button size="sm" onClick={() => handleOpen(run)} className="flex items-center gap-2">
+                      <FolderOpen className="w-4 h-4" />
+                      Open
+                    </Button>
+                    {parser && (
+                      <Button size="sm" variant="outline" onClick={() => handleCompare(run)} className="flex items-center gap-2">
+                        <GitCompare className="w-4 h-4" />
+                        Compare as Baseline
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setEditingRun(run)} aria-label={`Edit ${run.name}`}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setDeletingRun(run)} aria-label={`Delete ${run.name}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <RunMetadataDialog run={editingRun} onSave={handleSaveMetadata} onCancel={() => setEditingRun(null)} />
+
+      <ConfirmationDialog
+        open={!!deletingRun}
+        onOpenChange={(open) => !open && setDeletingRun(null)}
+        onConfirm={handleDelete}
+        title="Delete Run"
+        description={`Are you sure you want to delete "${deletingRun?.name ?? ''}" from the history? This cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </div>
+  );
+};
+
+export default History;
@@ -1,17 +1,53 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { FileDropZone } from "@/components/FileDropZone";
 import { MetricsOverview } from "@/components/MetricsOverview";
 import { PerformanceChart } from "@/components/PerformanceChart";
+import { PhaseBreakdownChart } from "@/components/PhaseBreakdownChart";
+import { DistributionChart } from "@/components/DistributionChart";
+import { HeatmapChart } from "@/components/HeatmapChart";
+import { SampleListDialog } from "@/components/SampleListDialog";
+import { ScatterPlot } from "@/components/ScatterPlot";
+import { ConcurrencyChart } from "@/components/ConcurrencyChart";
 import { ChartSelector, ChartConfig } from "@/components/ChartSelector";
 import { SortableTransactionTable } from "@/components/SortableTransactionTable";
 import { TopErrorsSection } from "@/components/ExpandableTopErrors";
 import { ExportButton } from "@/components/ExportButton";
+import { UploadDialogs } from "@/components/UploadDialogs";
+import { ParseProgressBar } from "@/components/ParseProgressBar";
+import { InjectorFilter } from "@/components/InjectorFilter";
+import { TimeWindowChip } from "@/components/TimeWindowChip";
+import { FilterBar } from "@/components/FilterBar";
+import { InjectorComparison } from "@/components/InjectorComparison";
+import { SlaScorecard } from "@/components/SlaScorecard";
+import { ApdexOverview } from "@/components/ApdexOverview";
+import { ApdexSettingsDialog } from "@/components/ApdexSettingsDialog";
+import { SlaRuleEditor } from "@/components/SlaRuleEditor";
+import { PercentileSettingsDialog } from "@/components/PercentileSettingsDialog";
 import { useApp } from "@/contexts/AppContext";
-import { BarChart3, TrendingUp, FileText } from "lucide-react";
+import { SlaRule, evaluateSlaRules, loadSlaRules, saveSlaRules } from "@/utils/slaRules";
+import { ApdexSettings, loadApdexSettings, saveApdexSettings } from "@/utils/apdex";
+import { loadPercentiles, savePercentiles } from "@/utils/percentiles";
+import { formatBand } from "@/utils/heatmap";
+import { ChartDataPoint, JTLParser, JTLRecord, SampleQuery } from "@/utils/jtlParser";
+import { readTimeWindow, sameTimeWindow, writeTimeWindow } from "@/utils/timeWindow";
+import { describeSteadyState } from "@/utils/steadyState";
+import { pickSampleFilter, withSampleFilter } from "@/utils/recordFilter";
+import { Button } from "@/components/ui/button";
+import { BarChart3, TrendingUp, FileText, Percent } from "lucide-react";
 import { useState } from "react";
 
+/** Seconds per point of the time series charts, which zooming snaps to. */
+const CHART_BUCKET_SECONDS = 30;
+
 const Index = () => {
-  const { parser, fileName, isProcessing, handleFileUpload } = useApp();
+  const {
+    parser,
+    fileName,
+    filter,
+    setFilter,
+    handleFileUpload
+  } = useApp();
   
   const [availableCharts, setAvailableCharts] = useState<ChartConfig[]>([
     { id: 'response-time', title: 'Response Time Over Time', type: 'response-time', category: 'Response Time', enabled: true },
@@ -21,13 +57,31 @@ const Index = () => {
     { id: 'min-max-avg', title: 'Min/Max/Avg Response Time', type: 'min-max-avg', category: 'Response Time', enabled: false },
     { id: 'success-rate', title: 'Success Rate Over Time', type: 'success-rate', category: 'Error Analysis', enabled: false },
     { id: 'bandwidth', title: 'Bandwidth Utilization', type: 'bandwidth', category: 'Performance', enabled: false },
-    { id: 'connect-latency', title: 'Connection Time vs Latency', type: 'connect-latency', category: 'Performance', enabled: false }
+    { id: 'active-threads', title: 'Active Threads Over Time', type: 'active-threads', category: 'Performance', enabled: false },
+    { id: 'concurrency', title: 'Throughput and p95 vs Active Threads', type: 'concurrency', category: 'Performance', enabled: false },
+    { id: 'connect-latency', title: 'Connection Time vs Latency', type: 'connect-latency', category: 'Performance', enabled: false },
+    { id: 'phases', title: 'Response Time Phases Over Time', type: 'phases', category: 'Response Time', enabled: false },
+    { id: 'phase-breakdown', title: 'Response Time Phases by Transaction', type: 'phase-breakdown', category: 'Response Time', enabled: false },
+    { id: 'apdex', title: 'Apdex Over Time', type: 'apdex', category: 'Performance', enabled: false },
+    { id: 'histogram', title: 'Response Time Distribution', type: 'histogram', category: 'Distribution', enabled: false },
+    { id: 'cdf', title: 'Response Time Percentile Curve', type: 'cdf', category: 'Distribution', enabled: false },
+    { id: 'heatmap', title: 'Response Time Heatmap', type: 'heatmap', category: 'Distribution', enabled: false },
+    { id: 'scatter', title: 'Response Time Scatter', type: 'scatter', category: 'Response Time', enabled: false }
   ]);
 
+  const [percentiles, setPercentiles] = useState<number[]>(loadPercentiles);
+  const [isEditingPercentiles, setIsEditingPercentiles] = useState(false);
+
+  const handleSavePercentiles = (list: number[]) => {
+    setPercentiles(list);
+    savePercentiles(list);
+    setIsEditingPercentiles(false);
+  };
+
   const metrics = useMemo(() => {
     if (!parser) return null;
     try {
-      return parser.calculateMetrics();
+      return parser.calculateMetrics(filter, percentiles);
     } catch (error) {
       console.error('Error calculating metrics:', error);
       return {
@@ -36,9 +90,9 @@ const Index = () => {
         minResponseTime: 0,
         throughput: 0,
         errorRate: 0,
-        totalRequests: parser.getRecords().length,
+        totalRequests: parser.getRecordCount(),
         successfulRequests: 0,
-        failedRequests: parser.getRecords().length,
+        failedRequests: parser.getRecordCount(),
         p90ResponseTime: 0,
         p95ResponseTime: 0,
         p99ResponseTime: 0,
@@ -48,37 +102,243 @@ const Index = () => {
         avgLatency: 0
       };
     }
-  }, [parser?.getRecords().length]); // Use records length instead of parser instance
+  }, [parser?.getRecordCount(), filter, percentiles]); // Use records length instead of parser instance
   
   const chartData = useMemo(() => {
     if (!parser) return null;
     try {
-      return parser.generateChartData();
+      return parser.generateChartData(CHART_BUCKET_SECONDS, filter, percentiles);
     } catch (error) {
       console.error('Error generating chart data:', error);
       return [];
     }
-  }, [parser?.getRecords().length]);
+  }, [parser?.getRecordCount(), filter, percentiles]);
   
   const transactions = useMemo(() => {
     if (!parser) return [];
     try {
-      return parser.getTransactionBreakdown() || [];
+      return parser.getTransactionBreakdown(filter) || [];
     } catch (error) {
       console.error('Error getting transaction breakdown:', error);
       return [];
     }
-  }, [parser?.getRecords().length]);
+  }, [parser?.getRecordCount(), filter]);
+
+  const phases = useMemo(() => {
+    if (!parser) return null;
+    try {
+      return parser.getPhaseBreakdown(filter);
+    } catch (error) {
+      console.error('Error getting phase breakdown:', error);
+      return null;
+    }
+  }, [parser?.getRecordCount(), filter]);
 
   const topErrors = useMemo(() => {
     if (!parser) return [];
     try {
-      return parser.getTopErrors() || [];
+      return parser.getTopErrors(filter) || [];
     } catch (error) {
       console.error('Error getting top errors:', error);
       return [];
     }
-  }, [parser?.getRecords().length]);
+  }, [parser?.getRecordCount(), filter]);
+
+  const distributionRuns = useMemo(() => {
+    if (!parser) return null;
+    try {
+      const histograms = parser.getResponseTimeHistograms(filter);
+      return histograms ? [{ name: fileName, histograms }] : null;
+    } catch (error) {
+      console.error('Error building response time histograms:', error);
+      return null;
+    }
+  }, [parser, filter, fileName]);
+
+  const [heatmapLabel, setHeatmapLabel] = useState<string | undefined>();
+  const [cellSamples, setCellSamples] = useState<{ query: SampleQuery; records: JTLRecord[]; total: number } | null>(null);
+
+  // Views over individual samples are only built while their chart is shown
+  const isChartEnabled = (id: string) => availableCharts.some(chart => chart.id === id && chart.enabled);
+  const showHeatmap = isChartEnabled('heatmap');
+  const showScatter = isChartEnabled('scatter');
+  const showConcurrency = isChartEnabled('concurrency');
+
+  // Thread charts are left out for results saved without thread counts
+  const hasThreadCounts = chartData?.some(point => point.activeThreads !== undefined) ?? false;
+
+  // Widen the buckets of long runs so the heatmap keeps to a couple of hundred columns
+  const heatmap = useMemo(() => {
+    if (!parser || !metrics || !showHeatmap) return null;
+    try {
+      const bucketSize = Math.max(30, Math.ceil(metrics.testDuration / 200 / 30) * 30);
+      return parser.generateHeatmap(bucketSize, filter, heatmapLabel);
+    } catch (error) {
+      console.error('Error generating heatmap:', error);
+      return null;
+    }
+  }, [parser, metrics, filter, heatmapLabel, showHeatmap]);
+
+  const scatterSamples = useMemo(() => {
+    if (!parser || !showScatter) return null;
+    try {
+      return parser.getScatterSamples(filter);
+    } catch (error) {
+      console.error('Error collecting scatter samples:', error);
+      return null;
+    }
+  }, [parser, filter, showScatter]);
+
+  const concurrencyProfile = useMemo(() => {
+    if (!parser || !showConcurrency) return null;
+    try {
+      return parser.getConcurrencyProfile(filter);
+    } catch (error) {
+      console.error('Error building concurrency profile:', error);
+      return null;
+    }
+  }, [parser, filter, showConcurrency]);
+
+  const handleHeatmapCellClick = (query: SampleQuery) => {
+    try {
+      setCellSamples({ query, ...parser!.getSamples(query, filter) });
+    } catch (error) {
+      console.error('Error listing samples:', error);
+    }
+  };
+
+  const [apdexSettings, setApdexSettings] = useState<ApdexSettings>(loadApdexSettings);
+  const [isEditingApdex, setIsEditingApdex] = useState(false);
+
+  const apdex = useMemo(() => {
+    if (!parser) return null;
+    try {
+      return {
+        overall: parser.calculateApdex(apdexSettings, filter),
+        byLabel: parser.getApdexByLabel(apdexSettings, filter),
+        timeline: new Map(parser.generateApdexTimeline(apdexSettings, CHART_BUCKET_SECONDS, filter).map(point => [point.offset, point.apdex]))
+      };
+    } catch (error) {
+      console.error('Error calculating Apdex:', error);
+      return null;
+    }
+  }, [parser, filter, apdexSettings]);
+
+  // Apdex shares the chart buckets, so it is merged in by offset
+  const chartDataWithApdex = useMemo(() => {
+    if (!chartData || !apdex || apdex.timeline.size === 0) return chartData;
+    return chartData.map(point => ({ ...point, apdex: apdex.timeline.get(point.offset) }));
+  }, [chartData, apdex]);
+
+  const handleSaveApdexSettings = (settings: ApdexSettings) => {
+    setApdexSettings(settings);
+    saveApdexSettings(settings);
+    setIsEditingApdex(false);
+  };
+
+  const [slaRules, setSlaRules] = useState<SlaRule[]>(loadSlaRules);
+  const [isEditingSlaRules, setIsEditingSlaRules] = useState(false);
+
+  const slaResults = useMemo(() => {
+    if (!metrics) return [];
+    return evaluateSlaRules(slaRules, metrics, transactions);
+  }, [slaRules, metrics, transactions]);
+
+  const handleSaveSlaRules = (rules: SlaRule[]) => {
+    setSlaRules(rules);
+    saveSlaRules(rules);
+    setIsEditingSlaRules(false);
+  };
+
+  const sources = useMemo(() => parser?.getSources() ?? [], [parser]);
+
+  const filterValues = useMemo(() => ({
+    labels: parser?.getFilterValues('labels') ?? [],
+    responseCodes: parser?.getFilterValues('responseCodes') ?? [],
+    threadGroups: parser?.getFilterValues('threadGroups') ?? []
+  }), [parser]);
+
+  // The zoomed time window lives in the URL; the filter follows it once a run with raw samples is loaded
+  const [searchParams, setSearchParams] = useSearchParams();
+  const store = parser && !parser.isSummaryOnly() ? parser.getStore() : null;
+  const runStart = store?.minTimestamp;
+  const runEnd = store?.maxTimestamp;
+  const timeWindow = useMemo(
+    () => (runStart === undefined ? {} : readTimeWindow(searchParams, runStart)),
+    [searchParams, runStart]
+  );
+
+  // A window belongs to the run it was zoomed on; only a shared link's window carries over to the run loaded next
+  const windowRunRef = useRef<JTLParser | null>(null);
+
+  useEffect(() => {
+    if (runStart === undefined) return;
+    const previousRun = windowRunRef.current;
+    windowRunRef.current = parser;
+    if (previousRun && previousRun !== parser && (timeWindow.from !== undefined || timeWindow.to !== undefined)) {
+      setSearchParams(writeTimeWindow(searchParams, {}, runStart), { replace: true });
+      return;
+    }
+    if (sameTimeWindow(filter, timeWindow)) return;
+    setFilter({ ...filter, from: timeWindow.from, to: timeWindow.to });
+  }, [parser, filter, timeWindow, runStart, setFilter, searchParams, setSearchParams]);
+
+  const handleZoom = (first: ChartDataPoint, last: ChartDataPoint) => {
+    if (runStart === undefined || first.start === undefined || last.start === undefined) return;
+    // Buckets are aligned to the clock, so keep the range inside any window already applied
+    const from = Math.max(first.start, filter.from ?? -Infinity);
+    const to = Math.min(last.start + CHART_BUCKET_SECONDS * 1000, filter.to ?? Infinity);
+    setSearchParams(writeTimeWindow(searchParams, { from, to }, runStart));
+  };
+
+  // The drill-down keeps the time window, which is read back from the URL on return
+  const navigate = useNavigate();
+  const openTransaction = (label: string) =>
+    navigate({ pathname: `/transaction/${encodeURIComponent(label)}`, search: searchParams.toString() });
+
+  const clearTimeWindow = () => {
+    if (runStart !== undefined) setSearchParams(writeTimeWindow(searchParams, {}, runStart));
+  };
+
+  const runPhases = useMemo(() => {
+    if (!parser) return null;
+    try {
+      return parser.getRunPhases();
+    } catch (error) {
+      console.error('Error detecting run phases:', error);
+      return null;
+    }
+  }, [parser]);
+
+  // Steady state metrics honor the other filters, within any zoomed window
+  const steadyState = useMemo(() => {
+    if (!parser || !runPhases || runStart === undefined) return null;
+    const from = Math.max(runPhases.steady.from, filter.from ?? -Infinity);
+    const to = Math.min(runPhases.steady.to, filter.to ?? Infinity);
+    if (from >= to) return null;
+    try {
+      return {
+        metrics: parser.calculateMetrics({ ...filter, from, to }, percentiles),
+        description: describeSteadyState(runPhases, runStart)
+      };
+    } catch (error) {
+      console.error('Error calculating steady state metrics:', error);
+      return null;
+    }
+  }, [parser, runPhases, runStart, filter, percentiles]);
+
+  const injectorComparison = useMemo(() => {
+    if (!parser || sources.length < 2) return null;
+    try {
+      return {
+        summaries: parser.getSourceBreakdown(),
+        timeline: parser.generateSourceTimeline()
+      };
+    } catch (error) {
+      console.error('Error comparing injectors:', error);
+      return null;
+    }
+  }, [parser, sources]);
 
   if (!parser) {
     return (
@@ -128,14 +388,10 @@ const Index = () => {
               </p>
             </div>
             
-            <FileDropZone onFileUpload={handleFileUpload} />
-            
-            {isProcessing && (
-              <div className="mt-8 text-center">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-                <p className="text-muted-foreground">Processing your performance data...</p>
-              </div>
-            )}
+            <FileDropZone onFileUpload={(files) => handleFileUpload(files)} />
+
+            <UploadDialogs />
+            <ParseProgressBar />
           </div>
         </div>
       </div>
@@ -154,12 +410,19 @@ const Index = () => {
                 Analysis of {fileName} • {metrics?.totalRequests.toLocaleString()} total requests
               </p>
             </div>
-            <div className="mt-4 md:mt-0">
+            <div className="mt-4 md:mt-0 flex items-center gap-2">
+              <Button variant="secondary" onClick={() => setIsEditingPercentiles(true)} className="flex items-center gap-2">
+                <Percent className="w-4 h-4" />
+                Percentiles
+              </Button>
               <ExportButton 
                 data={{
                   metrics,
                   chartData: chartData || [],
                   transactionBreakdown: transactions,
+                  slaResults,
+                  percentiles,
+                  steadyState,
                   fileName
                 }}
               />
@@ -169,8 +432,60 @@ const Index = () => {
       </div>
 
       <div className="container mx-auto px-6 py-8 space-y-8">
+        {/* SLA Scorecard */}
+        <SlaScorecard results={slaResults} onEditRules={() => setIsEditingSlaRules(true)} />
+        <SlaRuleEditor
+          open={isEditingSlaRules}
+          rules={slaRules}
+          onSave={handleSaveSlaRules}
+          onCancel={() => setIsEditingSlaRules(false)}
+        />
+
+        {/* Sample Filters */}
+        {!parser.isSummaryOnly() && (
+          <FilterBar
+            filter={pickSampleFilter(filter)}
+            onChange={(sampleFilter) => setFilter(withSampleFilter(filter, sampleFilter))}
+            values={filterValues}
+          />
+        )}
+
+        {/* Injector Filter and Time Window */}
+        {(sources.length > 1 || filter.from !== undefined || filter.to !== undefined) && (
+          <div className="flex flex-wrap items-center gap-4">
+            {sources.length > 1 && (
+              <InjectorFilter
+                sources={sources}
+                selected={filter.sources}
+                onChange={(selected) => setFilter({ ...filter, sources: selected })}
+              />
+            )}
+            {runStart !== undefined && (filter.from !== undefined || filter.to !== undefined) && (
+              <TimeWindowChip range={filter} runStart={runStart} runEnd={runEnd!} onClear={clearTimeWindow} />
+            )}
+          </div>
+        )}
+
         {/* Metrics Overview */}
-        {metrics && <MetricsOverview metrics={metrics} />}
+        {metrics && <MetricsOverview metrics={metrics} percentiles={percentiles} steadyState={steadyState} />}
+        <PercentileSettingsDialog
+          open={isEditingPercentiles}
+          percentiles={percentiles}
+          onSave={handleSavePercentiles}
+          onCancel={() => setIsEditingPercentiles(false)}
+        />
+
+        {/* Apdex */}
+        {apdex?.overall && (
+          <ApdexOverview apdex={apdex.overall} settings={apdexSettings} onEditSettings={() => setIsEditingApdex(true)} />
+        )}
+        <ApdexSettingsDialog
+          open={isEditingApdex}
+          settings={apdexSettings}
+          labels={transactions.map(transaction => transaction.label)}
+          onSave={handleSaveApdexSettings}
+          onCancel={() => setIsEditingApdex(false)}
+        />
 
         {/* Top Errors Section */}
         <TopErrorsSection errors={topErrors} />
@@ -185,25 +500,75 @@ const Index = () => {
         {chartData && chartData.length > 0 && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {availableCharts
-              .filter(chart => chart.enabled)
+              .filter(chart => chart.enabled && (hasThreadCounts || (chart.type !== 'active-threads' && chart.type !== 'concurrency')))
               .map(chart => (
                 <div 
                   key={chart.id} 
-                  className={chart.type === 'errors' || chart.type === 'min-max-avg' ? 'lg:col-span-2' : ''}
+                  className={chart.type === 'errors' || chart.type === 'min-max-avg' || chart.type === 'phases' || chart.type === 'phase-breakdown' || chart.type === 'heatmap' || chart.type === 'scatter' ? 'lg:col-span-2' : ''}
                 >
-                  <PerformanceChart 
-                    data={chartData} 
-                    title={chart.title} 
-                    type={chart.type as any}
-                  />
+                  {chart.type === 'phase-breakdown' ? (
+                    phases && <PhaseBreakdownChart phases={phases} title={chart.title} />
+                  ) : chart.type === 'heatmap' ? (
+                    heatmap && (
+                      <HeatmapChart
+                        title={chart.title}
+                        heatmap={heatmap}
+                        labels={transactions.map(transaction => transaction.label)}
+                        label={heatmapLabel}
+                        onLabelChange={setHeatmapLabel}
+                        onCellClick={handleHeatmapCellClick}
+                        phases={runPhases}
+                      />
+                    )
+                  ) : chart.type === 'scatter' ? (
+                    scatterSamples && <ScatterPlot title={chart.title} samples={scatterSamples} phases={runPhases} />
+                  ) : chart.type === 'concurrency' ? (
+                    concurrencyProfile && <ConcurrencyChart title={chart.title} points={concurrencyProfile} />
+                  ) : chart.type === 'histogram' || chart.type === 'cdf' ? (
+                    distributionRuns && <DistributionChart title={chart.title} type={chart.type} runs={distributionRuns} />
+                  ) : (
+                    <PerformanceChart 
+                      data={chartDataWithApdex} 
+                      title={chart.title} 
+                      type={chart.type as any}
+                      percentiles={percentiles}
+                      onRangeSelect={runStart !== undefined ? handleZoom : undefined}
+                      phases={runPhases}
+                    />
+                  )}
                 </div>
               ))
             }
           </div>
         )}
 
+        {cellSamples && (
+          <SampleListDialog
+            open
+            title="Samples in Heatmap Cell"
+            description={[
+              cellSamples.query.label ?? 'All transactions',
+              formatBand(cellSamples.query.minElapsed!, cellSamples.query.maxElapsed!),
+              `${new Date(cellSamples.query.from!).toLocaleTimeString()}–${new Date(cellSamples.query.to!).toLocaleTimeString()}`
+            ].join(' • ')}
+            records={cellSamples.records}
+            total={cellSamples.total}
+            onClose={() => setCellSamples(null)}
+          />
+        )}
+
+        {/* Per-injector split */}
+        {injectorComparison && (
+          <InjectorComparison summaries={injectorComparison.summaries} timeline={injectorComparison.timeline} />
+        )}
+
         {/* Transaction Table */}
-        <SortableTransactionTable transactions={transactions} />
+        <SortableTransactionTable
+          transactions={transactions}
+          apdex={apdex?.byLabel}
+          apdexSettings={apdexSettings}
+          onSelect={parser.isSummaryOnly() ? undefined : openTransaction}
+        />
       </div>
     </div>
   );
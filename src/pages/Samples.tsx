@@ -0,0 +1,158 @@
+import { FormEvent, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { SampleExplorerTable } from "@/components/SampleExplorerTable";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { useApp } from "@/contexts/AppContext";
+import { SampleSort } from "@/utils/jtlParser";
+import { SampleSearch, parseSampleSearch } from "@/utils/sampleSearch";
+import { jtlCsvChunks } from "@/utils/jtlWriter";
+import { narrowsBeyondSources } from "@/utils/recordFilter";
+import { AlertCircle, Download, Rows3, Search } from "lucide-react";
+
+const Samples = () => {
+  const { parser, fileName, filter } = useApp();
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState<SampleSearch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<SampleSort | undefined>();
+
+  const hasSamples = !!parser && !parser.isSummaryOnly();
+
+  // The dashboard's filters narrow the samples before the search does
+  const rows = useMemo(() => {
+    if (!hasSamples) return new Uint32Array(0);
+    try {
+      return parser.findSamples(search, filter, sort);
+    } catch (error) {
+      console.error('Error searching samples:', error);
+      return new Uint32Array(0);
+    }
+  }, [parser, hasSamples, search, filter, sort]);
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setSearch(parseSampleSearch(query));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = () => {
+    try {
+      const blob = new Blob(jtlCsvChunks(parser!.getStore(), rows), { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName.replace(/\.[^.]+$/, '')}-samples.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Samples Exported",
+        description: `${rows.length.toLocaleString()} samples were downloaded as a JTL file.`,
+      });
+    } catch (error) {
+      console.error('Error exporting samples:', error);
+      toast({
+        title: "Export Failed",
+        description: "There was an error exporting the samples. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!hasSamples) {
+    return (
+      <div className="container mx-auto px-6 py-16 text-center space-y-4">
+        <h1 className="text-3xl font-bold text-foreground">Sample Explorer</h1>
+        <p className="text-muted-foreground">
+          {parser
+            ? 'The sample explorer needs the raw samples, which this run was saved without.'
+            : 'Load a run to browse its individual samples.'}
+        </p>
+        <Button asChild>
+          <Link to="/">{parser ? 'Back to Report' : 'Load a Run'}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const isFiltered = !!filter.sources?.length || narrowsBeyondSources(filter);
+
+  return (
+    <div className="bg-background">
+      {/* Header */}
+      <div className="bg-gradient-primary text-primary-foreground">
+        <div className="container mx-auto px-6 py-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+                <Rows3 className="w-7 h-7" />
+                Sample Explorer
+              </h1>
+              <p className="text-primary-foreground/80">
+                {fileName} • {parser.getRecordCount().toLocaleString()} samples
+                {isFiltered && ' • Dashboard filters applied'}
+              </p>
+            </div>
+            <Button variant="secondary" onClick={handleExport} disabled={rows.length === 0} className="flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-6 py-8">
+        <Card className="bg-gradient-card shadow-card">
+          <CardHeader className="space-y-3">
+            <CardTitle className="text-foreground">
+              {rows.length.toLocaleString()} matching sample{rows.length === 1 ? '' : 's'}
+            </CardTitle>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                placeholder='label~"login" and elapsed>2000 and !success'
+                className="font-mono"
+              />
+              <Button type="submit" className="flex items-center gap-2">
+                <Search className="w-4 h-4" />
+                Search
+              </Button>
+            </form>
+            {error ? (
+              <div className="flex items-center gap-2 text-sm text-warning">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                <span>{error}</span>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Compare fields such as label, elapsed, latency, connect, code, message, thread, url, bytes or threads with
+                =, !=, &gt;, &gt;=, &lt;, &lt;=, ~ (regular expression, ignoring case) or !~, and combine them with and, or, not and
+                parentheses; success or !success keeps successful or failed samples
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <SampleExplorerTable
+              rows={rows}
+              getRecord={(row) => parser.getRecord(row)}
+              sort={sort}
+              onSortChange={setSort}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Samples;
@@ -0,0 +1,153 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { MetricsOverview } from "@/components/MetricsOverview";
+import { MetricsComparison } from "@/components/MetricsComparison";
+import { PerformanceChart } from "@/components/PerformanceChart";
+import { DistributionChart } from "@/components/DistributionChart";
+import { ResponseCodeDistribution } from "@/components/ResponseCodeDistribution";
+import { SlowestSamplesTable } from "@/components/SlowestSamplesTable";
+import { TopErrorsSection } from "@/components/ExpandableTopErrors";
+import { Button } from "@/components/ui/button";
+import { useApp } from "@/contexts/AppContext";
+import { compareTransactionToRun } from "@/utils/comparison";
+import { loadPercentiles } from "@/utils/percentiles";
+import { forTransaction, narrowsBeyondSources } from "@/utils/recordFilter";
+import { ArrowLeft } from "lucide-react";
+
+const TRANSACTION_CHARTS = [
+  { title: 'Response Time Over Time', type: 'response-time' },
+  { title: 'Throughput Over Time', type: 'throughput' },
+  { title: 'Response Time Percentiles', type: 'percentiles' },
+  { title: 'Errors Over Time', type: 'errors' }
+] as const;
+
+const Transaction = () => {
+  const { label = '' } = useParams();
+  const location = useLocation();
+  const { parser, fileName, filter } = useApp();
+  const [percentiles] = useState<number[]>(loadPercentiles);
+
+  // The dashboard's filters still apply, with this transaction in place of any transaction filter
+  const transactionFilter = useMemo(() => forTransaction(filter, label), [filter, label]);
+  const hasSamples = !!parser && !parser.isSummaryOnly();
+  const isKnownLabel = useMemo(
+    () => hasSamples && parser.getFilterValues('labels').includes(label),
+    [parser, hasSamples, label]
+  );
+
+  const details = useMemo(() => {
+    if (!parser || !isKnownLabel) return null;
+    try {
+      const metrics = parser.calculateMetrics(transactionFilter, percentiles);
+      const histograms = parser.getResponseTimeHistograms(transactionFilter);
+      return {
+        metrics,
+        comparison: compareTransactionToRun(parser.calculateMetrics(filter, percentiles), metrics),
+        chartData: parser.generateChartData(30, transactionFilter, percentiles),
+        distributionRuns: histograms ? [{ name: label, histograms }] : null,
+        topErrors: parser.getTopErrors(transactionFilter),
+        responseCodes: parser.getResponseCodeDistribution(transactionFilter),
+        slowestSamples: parser.getSlowestSamples(transactionFilter)
+      };
+    } catch (error) {
+      console.error('Error analyzing transaction:', error);
+      return null;
+    }
+  }, [parser, isKnownLabel, filter, transactionFilter, label, percentiles]);
+
+  const runPhases = useMemo(() => {
+    if (!hasSamples) return null;
+    try {
+      return parser.getRunPhases();
+    } catch (error) {
+      console.error('Error detecting run phases:', error);
+      return null;
+    }
+  }, [parser, hasSamples]);
+
+  // Keep the zoomed time window when heading back to the report
+  const reportLink = { pathname: '/', search: location.search };
+
+  if (!parser || !hasSamples || !details) {
+    const message = !parser
+      ? 'Load a run to look into its transactions.'
+      : !hasSamples
+        ? 'Transaction details need the raw samples, which this run was saved without.'
+        : `There is no transaction named "${label}" in ${fileName}.`;
+    return (
+      <div className="container mx-auto px-6 py-16 text-center space-y-4">
+        <h1 className="text-3xl font-bold text-foreground">Transaction Details</h1>
+        <p className="text-muted-foreground">{message}</p>
+        <Button asChild>
+          <Link to={reportLink}>{parser ? 'Back to Report' : 'Load a Run'}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const isFiltered = !!filter.sources?.length || narrowsBeyondSources({ ...filter, labels: undefined });
+
+  return (
+    <div className="bg-background">
+      {/* Header */}
+      <div className="bg-gradient-primary text-primary-foreground">
+        <div className="container mx-auto px-6 py-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="min-w-0">
+              <h1 className="text-3xl font-bold mb-2 truncate" title={label}>{label}</h1>
+              <p className="text-primary-foreground/80">
+                Transaction in {fileName} • {details.metrics.totalRequests.toLocaleString()} requests
+                {isFiltered && ' • Dashboard filters applied'}
+              </p>
+            </div>
+            <Button variant="secondary" asChild className="flex items-center gap-2">
+              <Link to={reportLink}>
+                <ArrowLeft className="w-4 h-4" />
+                Back to Report
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-6 py-8 space-y-8">
+        <MetricsOverview metrics={details.metrics} percentiles={percentiles} />
+
+        <MetricsComparison
+          deltas={details.comparison}
+          title="Compared with All Transactions"
+          baselineName="All transactions"
+          candidateName="This transaction"
+        />
+
+        {details.chartData.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {TRANSACTION_CHARTS.map(chart => (
+              <PerformanceChart
+                key={chart.type}
+                data={details.chartData}
+                title={chart.title}
+                type={chart.type}
+                percentiles={percentiles}
+                phases={runPhases}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {details.distributionRuns && (
+            <DistributionChart title="Response Time Distribution" type="histogram" runs={details.distributionRuns} />
+          )}
+          <ResponseCodeDistribution codes={details.responseCodes} />
+        </div>
+
+        <TopErrorsSection errors={details.topErrors} />
+
+        <SlowestSamplesTable records={details.slowestSamples} />
+      </div>
+    </div>
+  );
+};
+
+export default Transaction;
@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TrendChart } from "@/components/TrendChart";
+import { toast } from "@/hooks/use-toast";
+import { StoredRun, listRuns } from "@/utils/runHistory";
+import {
+  ALL_TRANSACTIONS,
+  DEFAULT_TREND_OPTIONS,
+  TREND_METRICS,
+  TrendAxis,
+  TrendMetric,
+  buildTrend,
+  listTrendLabels,
+  loadTrendThresholds,
+  saveTrendThresholds
+} from "@/utils/trends";
+import { TrendingUp } from "lucide-react";
+
+const WINDOW_SIZES = [3, 5, 10, 20];
+
+const Trends = () => {
+  const [runs, setRuns] = useState<StoredRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [label, setLabel] = useState(ALL_TRANSACTIONS);
+  const [axis, setAxis] = useState<TrendAxis>('date');
+  const [windowSize, setWindowSize] = useState(DEFAULT_TREND_OPTIONS.window);
+  const [thresholds, setThresholds] = useState(loadTrendThresholds);
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(error => {
+        console.error('Error loading run history:', error);
+        toast({
+          title: "History Unavailable",
+          description: "Could not read saved runs from this browser's storage.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const labels = useMemo(() => listTrendLabels(runs), [runs]);
+
+  const trends = useMemo(() => TREND_METRICS.map(definition => ({
+    definition,
+    points: buildTrend(runs, label, definition, axis, {
+      ...DEFAULT_TREND_OPTIONS,
+      window: windowSize,
+      threshold: thresholds[definition.metric]
+    })
+  })), [runs, label, axis, windowSize, thresholds]);
+
+  const handleThresholdChange = (metric: TrendMetric, threshold: number | undefined) => {
+    const updated = { ...thresholds, [metric]: threshold };
+    if (threshold === undefined) delete updated[metric];
+    setThresholds(updated);
+    saveTrendThresholds(updated);
+  };
+
+  if (!isLoading && runs.length < 2) {
+    return (
+      <div className="container mx-auto px-6 py-16 text-center space-y-4">
+        <h1 className="text-3xl font-bold text-foreground">Trends</h1>
+        <p className="text-muted-foreground">
+          Trends appear once at least two runs are saved in the history. Every run you analyze is saved automatically.
+        </p>
+        <Button asChild>
+          <Link to="/history">Open Run History</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+          <TrendingUp className="w-7 h-7 text-primary" />
+          Trends
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          How each transaction moved across {runs.length} saved runs. The shaded band is the expected range from the
+          preceding runs; amber points left it, red points broke the threshold you set.
+        </p>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card">
+        <CardContent className="p-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Transaction</Label>
+            <Select value={label} onValueChange={setLabel}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TRANSACTIONS}>All Transactions</SelectItem>
+                {labels.map(item => (
+                  <SelectItem key={item} value={item}>{item}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>X-axis</Label>
+            <Select value={axis} onValueChange={(value) => setAxis(value as TrendAxis)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">Run date</SelectItem>
+                <SelectItem value="build">Build number</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Moving baseline</Label>
+            <Select value={String(windowSize)} onValueChange={(value) => setWindowSize(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WINDOW_SIZES.map(size => (
+                  <SelectItem key={size} value={String(size)}>Previous {size} runs</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {trends.map(({ definition, points }) => (
+          <TrendChart
+            key={definition.metric}
+            definition={definition}
+            points={points}
+            threshold={thresholds[definition.metric]}
+            onThresholdChange={(threshold) => handleThresholdChange(definition.metric, threshold)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Trends;
@@ -0,0 +1,70 @@
+/**
+ * Application Performance Index: (satisfied + tolerating / 2) / total.
+ * Samples within T are satisfied, within the toleration threshold
+ * (T times the multiplier, 4T by convention) tolerating, and slower or
+ * failed samples frustrated.
+ */
+
+export interface ApdexSettings {
+  /** Satisfied threshold T in milliseconds */
+  threshold: number;
+  /** Toleration threshold as a multiple of T */
+  toleratingMultiplier: number;
+  /** Per-label T overriding the global one */
+  overrides: Record<string, number>;
+}
+
+export interface ApdexScore {
+  score: number;
+  satisfied: number;
+  tolerating: number;
+  frustrated: number;
+  total: number;
+}
+
+export type ApdexRating = 'Excellent' | 'Good' | 'Fair' | 'Poor' | 'Unacceptable';
+
+export const DEFAULT_APDEX_SETTINGS: ApdexSettings = {
+  threshold: 500,
+  toleratingMultiplier: 4,
+  overrides: {}
+};
+
+/** The standard rating bands, best first, with the lowest score each one admits. */
+export const APDEX_RATINGS: { rating: ApdexRating; min: number; color: 'success' | 'info' | 'warning' | 'error' }[] = [
+  { rating: 'Excellent', min: 0.94, color: 'success' },
+  { rating: 'Good', min: 0.85, color: 'info' },
+  { rating: 'Fair', min: 0.7, color: 'warning' },
+  { rating: 'Poor', min: 0.5, color: 'error' },
+  { rating: 'Unacceptable', min: 0, color: 'error' }
+];
+
+const STORAGE_KEY = 'apdexSettings';
+
+export const getApdexRating = (score: number) =>
+  APDEX_RATINGS.find(band => score >= band.min) ?? APDEX_RATINGS[APDEX_RATINGS.length - 1];
+
+export const apdexThreshold = (settings: ApdexSettings, label: string) => settings.overrides[label] ?? settings.threshold;
+
+export const toApdexScore = (satisfied: number, tolerating: number, total: number): ApdexScore => ({
+  score: total > 0 ? Math.round(((satisfied + tolerating / 2) / total) * 100) / 100 : 0,
+  satisfied,
+  tolerating,
+  frustrated: total - satisfied - tolerating,
+  total
+});
+
+export const loadApdexSettings = (): ApdexSettings => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_APDEX_SETTINGS;
+  try {
+    return { ...DEFAULT_APDEX_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Error loading Apdex settings:', error);
+    return DEFAULT_APDEX_SETTINGS;
+  }
+};
+
+export const saveApdexSettings = (settings: ApdexSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,145 @@
+export type Compression = 'gzip' | 'deflate-raw';
+
+export type ArchiveType = 'gzip' | 'zip';
+
+/** A file ready to be parsed, possibly still compressed. */
+export interface JTLSource {
+  name: string;
+  blob: Blob;
+  compression?: Compression;
+}
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// The end-of-central-directory record is 22 bytes plus a comment of up to 64 KB
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+const RESULT_FILE_PATTERN = /\.(jtl|csv|xml|txt)$/i;
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+export const detectArchiveType = async (file: Blob): Promise<ArchiveType | null> => {
+  if (file.size < 4) return null;
+  const header = await readBytes(file, 0, 4);
+  if (header.getUint8(0) === 0x1f && header.getUint8(1) === 0x8b) return 'gzip';
+  if (header.getUint32(0, true) === ZIP_LOCAL_HEADER) return 'zip';
+  return null;
+};
+
+/**
+ * Reads the central directory of a zip archive without loading the entries
+ * themselves. Supports ZIP64 archives, which CI tools produce once results
+ * grow past 4 GB.
+ */
+export const listZipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(0, file.size - MAX_EOCD_SEARCH);
+  const tail = await readBytes(file, tailStart, file.size);
+
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid zip archive: end of central directory not found');
+  }
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_LOCATOR) {
+    const zip64Offset = readUint64(tail, locator + 8);
+    const zip64 = await readBytes(file, zip64Offset, zip64Offset + 56);
+    if (zip64.getUint32(0, true) === ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      entryCount = readUint64(zip64, 32);
+      directorySize = readUint64(zip64, 40);
+      directoryOffset = readUint64(zip64, 48);
+    }
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount && offset + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) break;
+
+    const method = directory.getUint16(offset + 10, true);
+    let compressedSize = directory.getUint32(offset + 20, true);
+    let uncompressedSize = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    let localHeaderOffset = directory.getUint32(offset + 42, true);
+
+    const nameStart = directory.byteOffset + offset + 46;
+    const name = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength));
+
+    // ZIP64 stores the real sizes in an extra field when the 32-bit ones overflow
+    let extra = offset + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const size = directory.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA_FIELD) {
+        let field = extra + 4;
+        if (uncompressedSize === 0xffffffff) { uncompressedSize = readUint64(directory, field); field += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = readUint64(directory, field); field += 8; }
+        if (localHeaderOffset === 0xffffffff) { localHeaderOffset = readUint64(directory, field); }
+      }
+      extra += 4 + size;
+    }
+
+    entries.push({ name, method, compressedSize, uncompressedSize, localHeaderOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/** Entries that look like JMeter results (skips directories and unrelated files). */
+export const filterResultEntries = (entries: ZipEntry[]) =>
+  entries.filter(entry => !entry.name.endsWith('/') && RESULT_FILE_PATTERN.test(entry.name));
+
+export const openZipEntry = async (file: Blob, entry: ZipEntry): Promise<JTLSource> => {
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+    throw new Error(`Corrupt zip archive: missing local header for ${entry.name}`);
+  }
+
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  return {
+    name: entry.name.split('/').pop() || entry.name,
+    blob: file.slice(dataStart, dataStart + entry.compressedSize),
+    compression: entry.method === METHOD_DEFLATE ? 'deflate-raw' : undefined
+  };
+};
@@ -0,0 +1,182 @@
+import type { ChartDataPoint, PerformanceMetrics, TransactionSummary } from './jtlParser';
+
+export type DeltaDirection = 'better' | 'worse' | 'neutral';
+
+/** Which way a metric has to move for the candidate run to count as better. */
+type Polarity = 'lower' | 'higher' | 'none';
+
+export type MetricFormat = 'duration' | 'rate' | 'percent' | 'count' | 'seconds';
+
+/** The single-valued metrics; the configurable percentiles are not compared */
+export type MetricKey = Exclude<keyof PerformanceMetrics, 'percentiles'>;
+
+export interface Delta {
+  baseline: number;
+  candidate: number;
+  absolute: number;
+  /** Relative change, or null when the baseline is zero */
+  percent: number | null;
+  direction: DeltaDirection;
+}
+
+export interface MetricDelta extends Delta {
+  key: MetricKey;
+  label: string;
+  format: MetricFormat;
+}
+
+/** The numeric columns of a transaction, each compared on its own */
+export type TransactionMetricKey = Exclude<keyof TransactionSummary, 'label'>;
+
+export interface TransactionDelta extends Record<TransactionMetricKey, Delta> {
+  label: string;
+  /** Missing when the transaction only exists in the other run */
+  baseline?: TransactionSummary;
+  candidate?: TransactionSummary;
+}
+
+export interface ComparisonChartPoint extends ChartDataPoint {
+  baseline?: ChartDataPoint;
+}
+
+// Changes smaller than this are reported as neutral rather than better or worse
+const NEUTRAL_THRESHOLD_PERCENT = 2;
+
+const METRIC_DEFINITIONS: { key: MetricKey; label: string; format: MetricFormat; polarity: Polarity }[] = [
+  { key: 'avgResponseTime', label: 'Avg Response Time', format: 'duration', polarity: 'lower' },
+  { key: 'minResponseTime', label: 'Min Response Time', format: 'duration', polarity: 'lower' },
+  { key: 'maxResponseTime', label: 'Max Response Time', format: 'duration', polarity: 'lower' },
+  { key: 'p90ResponseTime', label: '90th Percentile', format: 'duration', polarity: 'lower' },
+  { key: 'p95ResponseTime', label: '95th Percentile', format: 'duration', polarity: 'lower' },
+  { key: 'p99ResponseTime', label: '99th Percentile', format: 'duration', polarity: 'lower' },
+  { key: 'avgConnectTime', label: 'Avg Connect Time', format: 'duration', polarity: 'lower' },
+  { key: 'avgLatency', label: 'Avg Latency', format: 'duration', polarity: 'lower' },
+  { key: 'throughput', label: 'Throughput', format: 'rate', polarity: 'higher' },
+  { key: 'transactionsPerSecond', label: 'Transactions/sec', format: 'rate', polarity: 'higher' },
+  { key: 'errorRate', label: 'Error Rate', format: 'percent', polarity: 'lower' },
+  { key: 'totalRequests', label: 'Total Requests', format: 'count', polarity: 'none' },
+  { key: 'successfulRequests', label: 'Successful Requests', format: 'count', polarity: 'none' },
+  { key: 'failedRequests', label: 'Failed Requests', format: 'count', polarity: 'lower' },
+  { key: 'testDuration', label: 'Test Duration', format: 'seconds', polarity: 'none' }
+];
+
+export const computeDelta = (baseline: number, candidate: number, polarity: Polarity): Delta => {
+  const absolute = candidate - baseline;
+  const percent = baseline !== 0 ? (absolute / baseline) * 100 : null;
+
+  let direction: DeltaDirection = 'neutral';
+  const significant = percent === null ? absolute !== 0 : Math.abs(percent) >= NEUTRAL_THRESHOLD_PERCENT;
+  if (polarity !== 'none' && significant) {
+    const improved = polarity === 'lower' ? absolute < 0 : absolute > 0;
+    direction = improved ? 'better' : 'worse';
+  }
+
+  return { baseline, candidate, absolute, percent, direction };
+};
+
+export const compareMetrics = (baseline: PerformanceMetrics, candidate: PerformanceMetrics): MetricDelta[] =>
+  METRIC_DEFINITIONS.map(({ key, label, format, polarity }) => ({
+    key,
+    label,
+    format,
+    ...computeDelta(baseline[key], candidate[key], polarity)
+  }));
+
+// Volumes of one transaction are always a fraction of the run's, so only its response times and errors are compared
+const TRANSACTION_METRIC_KEYS: MetricKey[] = [
+  'avgResponseTime', 'minResponseTime', 'maxResponseTime', 'p90ResponseTime', 'p95ResponseTime', 'p99ResponseTime',
+  'avgConnectTime', 'avgLatency', 'errorRate'
+];
+
+/** Holds one transaction against all transactions of the same run, the run standing in as baseline. */
+export const compareTransactionToRun = (run: PerformanceMetrics, transaction: PerformanceMetrics): MetricDelta[] =>
+  compareMetrics(run, transaction).filter(delta => TRANSACTION_METRIC_KEYS.includes(delta.key));
+
+// Request volumes and transferred bytes follow the load that was applied, so they are not judged
+const TRANSACTION_POLARITIES: Record<TransactionMetricKey, Polarity> = {
+  count: 'none',
+  avgResponseTime: 'lower',
+  minResponseTime: 'lower',
+  maxResponseTime: 'lower',
+  medianResponseTime: 'lower',
+  p90ResponseTime: 'lower',
+  p95ResponseTime: 'lower',
+  p99ResponseTime: 'lower',
+  stdDevResponseTime: 'lower',
+  throughput: 'higher',
+  receivedKBPerSec: 'none',
+  sentKBPerSec: 'none',
+  avgBytes: 'none',
+  errorRate: 'lower',
+  errorCount: 'lower'
+};
+
+/**
+ * Aligns the transactions of both runs by label. Transactions present in
+ * only one run are kept, with zeros standing in for the missing side.
+ */
+export const compareTransactions = (
+  baseline: TransactionSummary[],
+  candidate: TransactionSummary[]
+): TransactionDelta[] => {
+  const baselineByLabel = new Map(baseline.map(transaction => [transaction.label, transaction]));
+  const candidateByLabel = new Map(candidate.map(transaction => [transaction.label, transaction]));
+  const labels = [...new Set([...baselineByLabel.keys(), ...candidateByLabel.keys()])];
+
+  return labels.map(label => {
+    const before = baselineByLabel.get(label);
+    const after = candidateByLabel.get(label);
+    const delta = { label, baseline: before, candidate: after } as TransactionDelta;
+    for (const key of Object.keys(TRANSACTION_POLARITIES) as TransactionMetricKey[]) {
+      const beforeValue = before?.[key];
+      const afterValue = after?.[key];
+      // A transaction that appeared or disappeared is neither better nor worse, and neither
+      // is a column that a run saved to the history before it existed lacks
+      const comparable = typeof beforeValue === 'number' && typeof afterValue === 'number';
+      delta[key] = computeDelta(beforeValue ?? 0, afterValue ?? 0, comparable ? TRANSACTION_POLARITIES[key] : 'none');
+    }
+    return delta;
+  });
+};
+
+export const formatMetric = (value: number, format: MetricFormat) => {
+  switch (format) {
+    case 'duration':
+      return value < 1000 ? `${value.toFixed(0)}ms` : `${(value / 1000).toFixed(2)}s`;
+    case 'rate':
+      return `${value.toFixed(1)}/s`;
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'seconds':
+      return `${value.toFixed(0)}s`;
+    default:
+      return Math.round(value).toLocaleString();
+  }
+};
+
+const formatOffset = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `+${hours}:${pad(minutes)}:${pad(secs)}` : `+${pad(minutes)}:${pad(secs)}`;
+};
+
+/**
+ * Overlays two runs on a shared axis of elapsed test time. Both series must
+ * use the same bucket size; each point carries the candidate values, with
+ * the matching baseline bucket nested under `baseline`.
+ */
+export const alignChartData = (baseline: ChartDataPoint[], candidate: ChartDataPoint[]): ComparisonChartPoint[] => {
+  const baselineByOffset = new Map(baseline.map(point => [point.offset, point]));
+  const candidateByOffset = new Map(candidate.map(point => [point.offset, point]));
+  const offsets = [...new Set([...baselineByOffset.keys(), ...candidateByOffset.keys()])].sort((a, b) => a - b);
+
+  return offsets.map(offset => ({
+    // Buckets missing from the candidate keep only the offset so its lines show a gap
+    ...(candidateByOffset.get(offset) ?? ({} as ChartDataPoint)),
+    timestamp: formatOffset(offset),
+    offset,
+    baseline: baselineByOffset.get(offset)
+  }));
+};
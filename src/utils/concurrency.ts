@@ -0,0 +1,37 @@
+import type { ConcurrencyPoint } from './jtlParser';
+
+/** How far scaled throughput must sit above the straight line from first to last point to count as a knee. */
+const MIN_KNEE_DEVIATION = 0.1;
+
+/**
+ * The thread count where adding threads stops adding throughput, found the
+ * Kneedle way: with threads and throughput both scaled to [0, 1], the knee is
+ * the point furthest above the straight line from the first point to the
+ * last. Returns null with fewer than three points or when throughput keeps
+ * growing about linearly, which means the run never saturated.
+ */
+export const findKneePoint = (points: ConcurrencyPoint[]): ConcurrencyPoint | null => {
+  if (points.length < 3) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const threadSpan = last.threads - first.threads;
+  const minThroughput = Math.min(...points.map(point => point.throughput));
+  const throughputSpan = Math.max(...points.map(point => point.throughput)) - minThroughput;
+  if (threadSpan <= 0 || throughputSpan <= 0) return null;
+
+  const scaledThroughput = (point: ConcurrencyPoint) => (point.throughput - minThroughput) / throughputSpan;
+  const firstY = scaledThroughput(first);
+  const lastY = scaledThroughput(last);
+
+  let knee: ConcurrencyPoint | null = null;
+  let maxDeviation = MIN_KNEE_DEVIATION;
+  for (const point of points) {
+    const x = (point.threads - first.threads) / threadSpan;
+    const deviation = scaledThroughput(point) - (firstY + (lastY - firstY) * x);
+    if (deviation > maxDeviation) {
+      maxDeviation = deviation;
+      knee = point;
+    }
+  }
+  return knee;
+};
@@ -0,0 +1,86 @@
+import type { LogLinearHistogram } from './histogram';
+
+export type DistributionScale = 'linear' | 'log';
+
+export interface DistributionBin {
+  /** Lower edge in milliseconds, inclusive */
+  from: number;
+  /** Upper edge in milliseconds, exclusive */
+  to: number;
+  count: number;
+  /** Share of all samples, 0-100 */
+  percent: number;
+}
+
+/** One point of a percentile curve, with a value per series key. */
+export interface CdfPoint {
+  /**
+   * Position on the x-axis in "nines": 1 is the 90th percentile, 2 the 99th,
+   * 3 the 99.9th, so the tail gets as much room as the body.
+   */
+  nines: number;
+  percentile: number;
+  [series: string]: number;
+}
+
+export const DEFAULT_BIN_COUNT = 40;
+
+/** The curve stops at the 99.99th percentile; beyond that only the maximum remains. */
+export const MAX_NINES = 4;
+
+const NINES_STEP = 0.05;
+
+export const ninesToPercentile = (nines: number) => 100 * (1 - 10 ** -nines);
+
+/**
+ * Re-bins a histogram into evenly spaced bins on a linear or logarithmic
+ * axis. Bins span the histogram's own minimum to maximum unless a shared
+ * range is given, which keeps several runs on the same bins. Log bins start
+ * at 1ms or more so that zero-millisecond samples land in the first bin.
+ */
+export const histogramBins = (
+  histogram: LogLinearHistogram,
+  scale: DistributionScale,
+  binCount = DEFAULT_BIN_COUNT,
+  range: { min: number; max: number } = histogram
+): DistributionBin[] => {
+  if (histogram.count === 0) return [];
+
+  const low = scale === 'log' ? Math.max(1, range.min) : range.min;
+  const high = Math.max(range.max + 1, low + 1);
+  const edge = (index: number) => (scale === 'log' ? low * (high / low) ** (index / binCount) : low + ((high - low) * index) / binCount);
+  const binOf = (value: number) => {
+    const position = scale === 'log'
+      ? Math.log(Math.max(value, low) / low) / Math.log(high / low)
+      : (value - low) / (high - low);
+    return Math.min(binCount - 1, Math.max(0, Math.floor(position * binCount)));
+  };
+
+  const counts = new Array<number>(binCount).fill(0);
+  for (const { value, count } of histogram.buckets()) counts[binOf(value)] += count;
+
+  return counts.map((count, index) => ({
+    from: edge(index),
+    to: edge(index + 1),
+    count,
+    percent: (count / histogram.count) * 100
+  }));
+};
+
+/**
+ * Percentile curves of several histograms on a shared grid, so they can be
+ * drawn on one chart. Empty histograms are left out of every point.
+ */
+export const cdfPoints = (series: { key: string; histogram: LogLinearHistogram }[]): CdfPoint[] => {
+  const points: CdfPoint[] = [];
+  for (let step = 0; step * NINES_STEP <= MAX_NINES + 1e-9; step++) {
+    const nines = step * NINES_STEP;
+    const percentile = ninesToPercentile(nines);
+    const point: CdfPoint = { nines, percentile };
+    for (const { key, histogram } of series) {
+      if (histogram.count > 0) point[key] = Math.round(histogram.percentile(percentile));
+    }
+    points.push(point);
+  }
+  return points;
+};
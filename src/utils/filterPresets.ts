@@ -0,0 +1,33 @@
+import type { SampleFilter } from './recordFilter';
+
+export interface FilterPreset {
+  name: string;
+  filter: SampleFilter;
+}
+
+const STORAGE_KEY = 'filterPresets';
+
+export const loadFilterPresets = (): FilterPreset[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Error loading filter presets:', error);
+    return [];
+  }
+};
+
+const storeFilterPresets = (presets: FilterPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const saveFilterPreset = (preset: FilterPreset): FilterPreset[] => {
+  const presets = loadFilterPresets().filter(existing => existing.name !== preset.name);
+  return storeFilterPresets([...presets, preset]);
+};
+
+export const deleteFilterPreset = (name: string): FilterPreset[] => {
+  return storeFilterPresets(loadFilterPresets().filter(preset => preset.name !== name));
+};
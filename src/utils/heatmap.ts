@@ -0,0 +1,35 @@
+/**
+ * Latency bands for the response time heatmap follow the 1-2-5 series
+ * (0, 1, 2, 5, 10, 20, 50ms ...), three to a decade, so band edges stay
+ * round numbers while covering anything from sub-millisecond to minutes.
+ */
+
+const SERIES = [1, 2, 5];
+
+/** Band edges up to the first one above `max`; band i covers [edges[i], edges[i + 1]). */
+export const heatmapBandEdges = (max: number): number[] => {
+  const edges = [0];
+  for (let magnitude = 1; ; magnitude *= 10) {
+    for (const step of SERIES) {
+      edges.push(step * magnitude);
+      if (step * magnitude > max) return edges;
+    }
+  }
+};
+
+/** Index of the band holding a value, by binary search over the edges. */
+export const heatmapBandOf = (edges: number[], value: number): number => {
+  let low = 0;
+  let high = edges.length - 2;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (edges[middle] <= value) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+export const formatBand = (from: number, to: number) => {
+  const format = (ms: number) => (ms < 1000 ? `${ms}ms` : `${ms / 1000}s`);
+  return `${format(from)}–${format(to)}`;
+};
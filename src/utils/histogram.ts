@@ -0,0 +1,210 @@
+import type { RecordStore } from './recordStore';
+
+/**
+ * Log-linear response time histograms in the spirit of HdrHistogram. Values
+ * below 256ms get a bucket each and are exact; above that every power of two
+ * is split into 128 equal buckets, so a value is reported within 1/256
+ * (about 0.4%) of the true sample. Histograms of the same layout merge by
+ * adding counts, which is what lets percentiles be combined across time
+ * buckets, transactions and injectors without keeping the samples sorted.
+ */
+
+const SUB_BUCKET_BITS = 8;
+const SUB_BUCKET_COUNT = 1 << SUB_BUCKET_BITS;
+const HALF_SUB_BUCKET_COUNT = SUB_BUCKET_COUNT >> 1;
+
+/** Width of the time slots histograms are kept for while parsing. */
+export const HISTOGRAM_SLOT_SECONDS = 30;
+
+const bucketIndex = (value: number): number => {
+  const v = Math.max(0, Math.floor(value));
+  if (v < SUB_BUCKET_COUNT) return v;
+  // Shift the value down until it lands in the upper half of the sub-buckets
+  const shift = 31 - Math.clz32(v) - (SUB_BUCKET_BITS - 1);
+  return SUB_BUCKET_COUNT + (shift - 1) * HALF_SUB_BUCKET_COUNT + ((v >>> shift) - HALF_SUB_BUCKET_COUNT);
+};
+
+/** Middle of the range of values that share a bucket. */
+const bucketValue = (index: number): number => {
+  if (index < SUB_BUCKET_COUNT) return index;
+  const offset = index - SUB_BUCKET_COUNT;
+  const shift = Math.floor(offset / HALF_SUB_BUCKET_COUNT) + 1;
+  const low = ((offset % HALF_SUB_BUCKET_COUNT) + HALF_SUB_BUCKET_COUNT) * 2 ** shift;
+  return low + (2 ** shift - 1) / 2;
+};
+
+export class LogLinearHistogram {
+  // Grown on demand, so histograms of fast transactions stay small
+  private counts = new Uint32Array(SUB_BUCKET_COUNT);
+  private total = 0;
+  private minValue = Infinity;
+  private maxValue = -Infinity;
+
+  get count(): number {
+    return this.total;
+  }
+
+  /** Exact smallest recorded value, or 0 when empty. */
+  get min(): number {
+    return this.total > 0 ? this.minValue : 0;
+  }
+
+  /** Exact largest recorded value, or 0 when empty. */
+  get max(): number {
+    return this.total > 0 ? this.maxValue : 0;
+  }
+
+  record(value: number, count = 1): void {
+    const index = bucketIndex(value);
+    this.ensureCapacity(index + 1);
+    this.counts[index] += count;
+    this.total += count;
+    if (value < this.minValue) this.minValue = value;
+    if (value > this.maxValue) this.maxValue = value;
+  }
+
+  /** Adds another histogram's counts to this one. */
+  merge(other: LogLinearHistogram): void {
+    if (other.total === 0) return;
+    this.ensureCapacity(other.counts.length);
+    for (let index = 0; index < other.counts.length; index++) {
+      this.counts[index] += other.counts[index];
+    }
+    this.total += other.total;
+    if (other.minValue < this.minValue) this.minValue = other.minValue;
+    if (other.maxValue > this.maxValue) this.maxValue = other.maxValue;
+  }
+
+  /**
+   * The p-th percentile, at rank (n - 1) * p / 100 and interpolated linearly
+   * between the two closest ranks, with each sample standing at its bucket's value.
+   */
+  percentile(p: number): number {
+    if (this.total === 0) return 0;
+    if (p <= 0) return this.minValue;
+    if (p >= 100) return this.maxValue;
+
+    const rank = ((this.total - 1) * p) / 100;
+    const lower = Math.floor(rank);
+    const fraction = rank - lower;
+    const lowerValue = this.valueAtRank(lower);
+    if (fraction === 0) return lowerValue;
+    return lowerValue + fraction * (this.valueAtRank(lower + 1) - lowerValue);
+  }
+
+  /** Non-empty buckets in ascending order, each at its value clamped to the recorded range. */
+  buckets(): { value: number; count: number }[] {
+    const buckets: { value: number; count: number }[] = [];
+    for (let index = 0; index < this.counts.length; index++) {
+      if (this.counts[index] === 0) continue;
+      buckets.push({
+        value: Math.min(this.maxValue, Math.max(this.minValue, bucketValue(index))),
+        count: this.counts[index]
+      });
+    }
+    return buckets;
+  }
+
+  /** Value of the sample at a zero-based rank, clamped to the recorded range. */
+  private valueAtRank(rank: number): number {
+    let seen = 0;
+    for (let index = 0; index < this.counts.length; index++) {
+      seen += this.counts[index];
+      if (seen > rank) return Math.min(this.maxValue, Math.max(this.minValue, bucketValue(index)));
+    }
+    return this.maxValue;
+  }
+
+  private ensureCapacity(length: number): void {
+    if (length <= this.counts.length) return;
+    const counts = new Uint32Array(Math.max(length, this.counts.length * 2));
+    counts.set(this.counts);
+    this.counts = counts;
+  }
+}
+
+interface SourceHistograms {
+  labels: Map<string, LogLinearHistogram>;
+  /** Keyed by slot number: whole `HISTOGRAM_SLOT_SECONDS` since the epoch */
+  slots: Map<number, LogLinearHistogram>;
+}
+
+const getOrCreate = <K>(map: Map<K, LogLinearHistogram>, key: K) => {
+  let histogram = map.get(key);
+  if (!histogram) {
+    histogram = new LogLinearHistogram();
+    map.set(key, histogram);
+  }
+  return histogram;
+};
+
+const mergeInto = <K>(target: Map<K, LogLinearHistogram>, source: Map<K, LogLinearHistogram>) => {
+  for (const [key, histogram] of source) getOrCreate(target, key).merge(histogram);
+};
+
+/**
+ * Response time histograms per injector, split by transaction and by time
+ * slot, kept up to date as records are parsed. Queries merge the injectors
+ * they ask for, so the result is always a fresh histogram that is safe to
+ * modify.
+ */
+export class HistogramIndex {
+  private bySource = new Map<string, SourceHistograms>();
+
+  /** Builds the index for stored records, limited to `rows` when given. */
+  static fromStore(store: RecordStore, rows: Uint32Array | null = null): HistogramIndex {
+    const index = new HistogramIndex();
+    const total = rows ? rows.length : store.size;
+    const timestamps = store.column('timestamp')!;
+    const elapsed = store.column('elapsed')!;
+    const labelCodes = store.codes('label')!;
+    const labels = store.dictionary('label');
+    const sourceCodes = store.codes('source');
+    const sources = store.dictionary('source');
+
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      index.record(labels[labelCodes[i]], sourceCodes ? sources[sourceCodes[i]] : '', timestamps[i], elapsed[i]);
+    }
+    return index;
+  }
+
+  record(label: string, source: string | undefined, timestamp: number, elapsed: number): void {
+    const key = source ?? '';
+    let histograms = this.bySource.get(key);
+    if (!histograms) {
+      histograms = { labels: new Map(), slots: new Map() };
+      this.bySource.set(key, histograms);
+    }
+    getOrCreate(histograms.labels, label).record(elapsed);
+    getOrCreate(histograms.slots, Math.floor(timestamp / (HISTOGRAM_SLOT_SECONDS * 1000))).record(elapsed);
+  }
+
+  /** Histograms per transaction label over the given sources, or all of them. */
+  byLabel(sources?: string[]): Map<string, LogLinearHistogram> {
+    const merged = new Map<string, LogLinearHistogram>();
+    for (const histograms of this.select(sources)) mergeInto(merged, histograms.labels);
+    return merged;
+  }
+
+  /** Histograms per time slot over the given sources, or all of them. */
+  bySlot(sources?: string[]): Map<number, LogLinearHistogram> {
+    const merged = new Map<number, LogLinearHistogram>();
+    for (const histograms of this.select(sources)) mergeInto(merged, histograms.slots);
+    return merged;
+  }
+
+  /** One histogram of every response time over the given sources. */
+  overall(sources?: string[]): LogLinearHistogram {
+    const merged = new LogLinearHistogram();
+    for (const histograms of this.select(sources)) {
+      for (const histogram of histograms.labels.values()) merged.merge(histogram);
+    }
+    return merged;
+  }
+
+  private select(sources?: string[]): SourceHistograms[] {
+    if (!sources) return Array.from(this.bySource.values());
+    return sources.flatMap(source => this.bySource.get(source) ?? []);
+  }
+}
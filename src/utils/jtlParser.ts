@@ -1,3 +1,16 @@
+import { JTLReader } from './jtlReader';
+import { CodeColumn, RecordStore, RecordStoreSnapshot } from './recordStore';
+import { ApdexScore, ApdexSettings, apdexThreshold, toApdexScore } from './apdex';
+import { DEFAULT_PERCENTILES, percentileKey } from './percentiles';
+import { HISTOGRAM_SLOT_SECONDS, HistogramIndex, LogLinearHistogram } from './histogram';
+import { heatmapBandEdges, heatmapBandOf } from './heatmap';
+import { MAX_SCATTER_POINTS, threadGroupOf } from './scatter';
+import { RunPhases, detectRunPhases } from './steadyState';
+import { narrowsBeyondSources, valueMatcher } from './recordFilter';
+import { SampleSearch, SearchField, compileSampleSearch, sampleSortKey } from './sampleSearch';
+
+export type JTLFormat = 'csv' | 'xml';
+
 export interface JTLRecord {
   timestamp: number;
   elapsed: number;
@@ -5,6 +18,7 @@ export interface JTLRecord {
   responseCode: string;
   success: boolean;
   threadName: string;
+  responseMessage?: string;
   failureMessage?: string;
   bytes?: number;
   sentBytes?: number;
@@ -13,20 +27,54 @@ export interface JTLRecord {
   url?: string;
   filename?: string;
   latency?: number;
+  connect?: number;
+  idleTime?: number;
   encoding?: string;
   sampleCount?: number;
   errorCount?: number;
+  hostname?: string;
+  parentLabel?: string;
+  /** File the sample was loaded from, used to tell injectors apart in merged runs */
+  source?: string;
+}
+
+export type MappableField =
+  | 'timestamp'
+  | 'elapsed'
+  | 'label'
+  | 'responseCode'
+  | 'responseMessage'
+  | 'success'
+  | 'threadName'
+  | 'failureMessage'
+  | 'bytes'
+  | 'sentBytes'
+  | 'grpThreads'
+  | 'allThreads'
+  | 'url'
+  | 'latency'
+  | 'connect'
+  | 'idleTime'
+  | 'hostname';
+
+export interface ColumnMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  /** Target field for each column, or null to ignore the column */
+  columns: (MappableField | null)[];
 }
 
 export interface ParseResult {
   success: boolean;
-  records: JTLRecord[];
+  recordCount: number;
   error?: string;
   debugInfo: {
     totalLines: number;
+    detectedFormat: JTLFormat;
     headerLine: string;
     detectedHeaders: string[];
     detectedDelimiter: string;
+    previewLines: string[];
     parsedRecords: number;
     validRecords: number;
     sampleRecord?: Partial<JTLRecord>;
@@ -45,6 +93,11 @@ export interface PerformanceMetrics {
   p90ResponseTime: number;
   p95ResponseTime: number;
   p99ResponseTime: number;
+  /**
+   * The configured percentiles keyed by `percentileKey`. Runs saved to the
+   * history before percentiles were configurable lack it.
+   */
+  percentiles?: Record<string, number>;
   transactionsPerSecond: number;
   testDuration: number;
   avgConnectTime: number;
@@ -53,6 +106,10 @@ export interface PerformanceMetrics {
 
 export interface ChartDataPoint {
   timestamp: string;
+  /** Seconds from the start of the first bucket to the start of this one */
+  offset: number;
+  /** Epoch milliseconds at the start of the bucket; missing from runs stored before it was added */
+  start?: number;
   responseTime: number;
   throughput: number;
   errors: number;
@@ -61,10 +118,169 @@ export interface ChartDataPoint {
   p90ResponseTime: number;
   p95ResponseTime: number;
   p99ResponseTime: number;
+  /** The configured percentiles keyed by `percentileKey` */
+  percentiles?: Record<string, number>;
   successRate: number;
   avgConnectTime: number;
   avgLatency: number;
+  avgServerTime: number;
+  avgDownloadTime: number;
   bandwidth: number;
+  /** Apdex of the bucket, when merged in from `generateApdexTimeline` */
+  apdex?: number;
+  /** Average number of active threads, when the results recorded it */
+  activeThreads?: number;
+}
+
+/**
+ * Average time spent in each phase of a request: establishing the connection,
+ * waiting for the first byte after connecting (latency minus connect), and
+ * receiving the rest of the response (elapsed minus latency).
+ */
+export interface PhaseTiming {
+  connect: number;
+  server: number;
+  download: number;
+}
+
+export interface PhaseBreakdown {
+  overall: PhaseTiming;
+  transactions: (PhaseTiming & { label: string; count: number })[];
+}
+
+export interface TransactionSummary {
+  label: string;
+  count: number;
+  avgResponseTime: number;
+  minResponseTime: number;
+  maxResponseTime: number;
+  medianResponseTime: number;
+  p90ResponseTime: number;
+  p95ResponseTime: number;
+  p99ResponseTime: number;
+  /** Population standard deviation, as in JMeter's Aggregate Report */
+  stdDevResponseTime: number;
+  /** Requests per second from the transaction's first sample start to its last sample end */
+  throughput: number;
+  receivedKBPerSec: number;
+  sentKBPerSec: number;
+  avgBytes: number;
+  errorRate: number;
+  errorCount: number;
+}
+
+/**
+ * Values of one field to keep or drop. A sample passes when it matches one
+ * of the includes, if there are any, and none of the excludes.
+ */
+export interface ValueFilter {
+  include?: string[];
+  exclude?: string[];
+  /** Treat the entries as regular expressions rather than exact values */
+  regex?: boolean;
+}
+
+/** Restricts aggregations to a subset of the loaded samples. */
+export interface RecordFilter {
+  sources?: string[];
+  /** Time window in epoch milliseconds, as [from, to) */
+  from?: number;
+  to?: number;
+  labels?: ValueFilter;
+  responseCodes?: ValueFilter;
+  /** Thread group names, derived from the thread names */
+  threadGroups?: ValueFilter;
+  /** Keep only successful (true) or failed (false) samples */
+  success?: boolean;
+  /** Response time bounds in milliseconds, both inclusive */
+  minElapsed?: number;
+  maxElapsed?: number;
+}
+
+export interface SourceSummary {
+  source: string;
+  count: number;
+  avgResponseTime: number;
+  p95ResponseTime: number;
+  errorRate: number;
+  throughput: number;
+}
+
+export interface SourceTimelinePoint {
+  timestamp: string;
+  [source: string]: number | string;
+}
+
+export interface ApdexTimelinePoint {
+  timestamp: string;
+  offset: number;
+  apdex: number;
+}
+
+export interface ResponseTimeHistograms {
+  overall: LogLinearHistogram;
+  byLabel: Map<string, LogLinearHistogram>;
+}
+
+export interface HeatmapColumn {
+  timestamp: string;
+  /** Epoch milliseconds at the start of the bucket */
+  start: number;
+  offset: number;
+  /** Sample count per latency band */
+  counts: number[];
+}
+
+export interface ResponseTimeHeatmap {
+  /** Latency band edges in milliseconds; band i covers [edges[i], edges[i + 1]) */
+  bandEdges: number[];
+  /** Every time bucket of the run, empty ones included */
+  columns: HeatmapColumn[];
+  bucketSize: number;
+  maxCount: number;
+}
+
+/** Individual samples for the scatter plot, as parallel columns. */
+export interface ScatterSamples {
+  timestamps: Float64Array;
+  elapsed: Int32Array;
+  success: Uint8Array;
+  /** Index into `labels` per point */
+  labelCodes: Uint32Array;
+  labels: string[];
+  /** Index into `threadGroups` per point */
+  threadGroupCodes: Uint32Array;
+  threadGroups: string[];
+  /** Matching samples before downsampling */
+  total: number;
+}
+
+/** Throughput and response times observed while a given number of threads was active. */
+export interface ConcurrencyPoint {
+  /** Average active threads over the seconds in this level */
+  threads: number;
+  /** Requests per second while at this level */
+  throughput: number;
+  avgResponseTime: number;
+  p95ResponseTime: number;
+  samples: number;
+  /** Seconds of the run spent at this level */
+  seconds: number;
+}
+
+/** Narrows samples by time, response time and transaction; bounds are [from, to). */
+export interface SampleQuery {
+  from?: number;
+  to?: number;
+  minElapsed?: number;
+  maxElapsed?: number;
+  label?: string;
+}
+
+/** Column the sample explorer orders rows by. */
+export interface SampleSort {
+  field: SearchField;
+  descending: boolean;
 }
 
 export interface ErrorAnalysis {
@@ -75,557 +291,1192 @@ export interface ErrorAnalysis {
   affectedTransactions: string[];
 }
 
+/** How often a response code came back, with its share of the matching samples. */
+export interface ResponseCodeCount {
+  responseCode: string;
+  count: number;
+  percentage: number;
+  /** Samples with this code that JMeter marked as failed */
+  failures: number;
+}
+
+/**
+ * Precomputed aggregates of a whole run. Enough to redraw the dashboard for
+ * runs whose raw samples were not kept.
+ */
+export interface RunSummary {
+  recordCount: number;
+  startTime: number;
+  endTime: number;
+  metrics: PerformanceMetrics;
+  transactions: TransactionSummary[];
+  chartData: ChartDataPoint[];
+  phases: PhaseBreakdown;
+  topErrors: ErrorAnalysis[];
+}
+
 export class JTLParser {
-  private records: JTLRecord[] = [];
+  private store = new RecordStore();
   private lastParseResult?: ParseResult;
-  private metricsCache?: PerformanceMetrics;
+  private metricsCache = new Map<string, PerformanceMetrics>();
+  private histograms = new HistogramIndex();
+  private windowHistograms?: { key: string; index: HistogramIndex };
+  private summary?: RunSummary;
 
-  parseFile(content: string): ParseResult {
-    this.records = [];
-    this.metricsCache = undefined; // Clear cache when parsing new file
-    console.log('Starting JTL file parsing...');
-    
-    const lines = content.trim().split('\n');
-    if (lines.length < 2) {
-      return {
-        success: false,
-        records: [],
-        error: 'File must contain at least a header and one data row',
-        debugInfo: {
-          totalLines: lines.length,
-          headerLine: lines[0] || '',
-          detectedHeaders: [],
-          detectedDelimiter: '',
-          parsedRecords: 0,
-          validRecords: 0
-        }
-      };
-    }
+  /** Reopens a stored run from its raw samples. */
+  static fromSnapshot(snapshot: RecordStoreSnapshot): JTLParser {
+    const parser = new JTLParser();
+    parser.store = RecordStore.fromSnapshot(snapshot);
+    parser.store.sortByTimestamp();
+    parser.histograms = HistogramIndex.fromStore(parser.store);
+    return parser;
+  }
 
-    // Auto-detect delimiter
-    const headerLine = lines[0];
-    const delimiter = this.detectDelimiter(headerLine);
-    console.log(`Detected delimiter: "${delimiter}"`);
+  /**
+   * Reopens a stored run from its aggregates alone. Filters are ignored and
+   * views that need raw samples come back empty.
+   */
+  static fromSummary(summary: RunSummary): JTLParser {
+    const parser = new JTLParser();
+    parser.summary = summary;
+    return parser;
+  }
 
-    const headers = this.parseRow(headerLine, delimiter);
-    console.log('Detected headers:', headers);
+  isSummaryOnly(): boolean {
+    return !!this.summary;
+  }
 
-    this.records = [];
-    let parsedRecords = 0;
-    let validRecords = 0;
-    let sampleRecord: Partial<JTLRecord> | undefined;
+  getSummary(percentiles: number[] = DEFAULT_PERCENTILES): RunSummary {
+    if (this.summary) return this.summary;
+    return {
+      recordCount: this.store.size,
+      startTime: this.store.minTimestamp,
+      endTime: this.store.maxTimestamp,
+      metrics: this.calculateMetrics(undefined, percentiles),
+      transactions: this.getTransactionBreakdown(),
+      chartData: this.generateChartData(30, undefined, percentiles),
+      phases: this.getPhaseBreakdown(),
+      topErrors: this.getTopErrors()
+    };
+  }
 
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue; // Skip empty lines
+  parseFile(content: string): ParseResult {
+    this.reset();
+    console.log('Starting JTL file parsing...');
 
-      const values = this.parseRow(line, delimiter);
-      parsedRecords++;
+    const reader = new JTLReader();
+    this.appendRecords(reader.push(content));
+    this.appendRecords(reader.finish());
 
-      if (values.length >= Math.min(headers.length, 3)) { // At least 3 fields required
-        const record: Partial<JTLRecord> = {};
-        
-        headers.forEach((header, index) => {
-          if (index >= values.length) return;
-          
-          const value = values[index]?.trim();
-          if (!value) return;
+    return this.completeParse(reader.getDebugInfo(), reader.getError());
+  }
 
-          this.mapFieldToRecord(header, value, record);
-        });
-        
-        // More flexible validation - require either timestamp OR elapsed, and at least one other field
-        const hasTimeData = record.timestamp || record.elapsed !== undefined;
-        const hasLabel = record.label && record.label !== '';
-        const hasResponseData = record.responseCode || record.success !== undefined;
-        
-        if (hasTimeData && (hasLabel || hasResponseData)) {
-          // Fill in missing required fields with defaults
-          if (!record.timestamp && record.elapsed !== undefined) {
-            record.timestamp = Date.now() - (this.records.length * 1000); // Fake timestamps
-          }
-          if (record.elapsed === undefined && record.timestamp) {
-            record.elapsed = 100; // Default response time
-          }
-          if (!record.label) record.label = 'Unknown';
-          if (!record.responseCode) record.responseCode = '200';
-          if (record.success === undefined) record.success = true;
-          if (!record.threadName) record.threadName = 'Thread Group 1-1';
-
-          this.records.push(record as JTLRecord);
-          validRecords++;
-          
-          if (!sampleRecord) {
-            sampleRecord = { ...record };
-          }
-        }
-      }
+  reset(): void {
+    this.store = new RecordStore();
+    this.histograms = new HistogramIndex();
+    this.windowHistograms = undefined;
+    this.summary = undefined;
+    this.lastParseResult = undefined;
+    this.metricsCache.clear(); // Clear cache when parsing new file
+  }
+
+  appendRecords(records: JTLRecord[], source?: string): void {
+    for (const record of records) {
+      if (source) record.source = source;
+      this.store.append(record);
+      this.histograms.record(record.label, record.source, record.timestamp, record.elapsed);
     }
+    this.metricsCache.clear();
+    this.windowHistograms = undefined;
+  }
 
-    console.log(`Parsing complete: ${validRecords}/${parsedRecords} valid records`);
+  completeParse(debugInfo: ParseResult['debugInfo'], error?: string): ParseResult {
+    console.log(`Parsing complete: ${debugInfo.validRecords}/${debugInfo.parsedRecords} valid records`);
+
+    // Files from several injectors arrive one after another; merge them into one timeline
+    this.store.sortByTimestamp();
 
     const result: ParseResult = {
-      success: validRecords > 0,
-      records: this.records,
-      error: validRecords === 0 ? 'No valid records found. Check file format and required fields.' : undefined,
-      debugInfo: {
-        totalLines: lines.length,
-        headerLine,
-        detectedHeaders: headers,
-        detectedDelimiter: delimiter,
-        parsedRecords,
-        validRecords,
-        sampleRecord
-      }
+      success: this.store.size > 0,
+      recordCount: this.store.size,
+      error: this.store.size === 0 ? error : undefined,
+      debugInfo
     };
 
     this.lastParseResult = result;
     return result;
   }
 
-  private detectDelimiter(line: string): string {
-    const delimiters = ['\t', ',', ';', '|'];
-    let bestDelimiter = '\t';
-    let maxFields = 0;
+  getLastParseResult(): ParseResult | undefined {
+    return this.lastParseResult;
+  }
 
-    for (const delimiter of delimiters) {
-      const fields = this.parseRow(line, delimiter);
-      if (fields.length > maxFields) {
-        maxFields = fields.length;
-        bestDelimiter = delimiter;
-      }
+  getRecordCount(): number {
+    return this.summary ? this.summary.recordCount : this.store.size;
+  }
+
+  getRecord(index: number): JTLRecord {
+    return this.store.get(index);
+  }
+
+  getStore(): RecordStore {
+    return this.store;
+  }
+
+  /**
+   * Distinct values a filter can pick from, across all samples: transaction
+   * labels, response codes or thread groups, sorted.
+   */
+  getFilterValues(field: 'labels' | 'responseCodes' | 'threadGroups'): string[] {
+    if (this.summary) return [];
+    if (field === 'threadGroups') {
+      return Array.from(new Set(this.store.dictionary('threadName').slice(1).map(threadGroupOf))).sort();
     }
+    return this.store.dictionary(field === 'labels' ? 'label' : 'responseCode').slice(1).sort();
+  }
 
-    return bestDelimiter;
+  /** Distinct sources (injector files) in load order. */
+  getSources(): string[] {
+    if (this.summary) return [];
+    return this.store.dictionary('source').slice(1);
   }
 
-  private parseRow(line: string, delimiter: string): string[] {
-    // Handle quoted fields
-    const fields: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let i = 0;
+  /**
+   * Indices of the records matching the filter, in timestamp order, or null
+   * when the filter matches everything so callers can skip the indirection.
+   */
+  private selectRows(filter?: RecordFilter): Uint32Array | null {
+    if (!filter) return null;
+    const store = this.store;
 
-    while (i < line.length) {
-      const char = line[i];
-      
-      if (char === '"' && (i === 0 || line[i-1] === delimiter || inQuotes)) {
-        inQuotes = !inQuotes;
-      } else if (char === delimiter && !inQuotes) {
-        fields.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+    // String fields are matched once per dictionary value rather than per sample
+    const checks: { codes: CodeColumn; allowed: Uint8Array }[] = [];
+    const addCheck = (codes: CodeColumn | undefined, values: string[], matches: ((value: string) => boolean) | null) => {
+      if (!codes || !matches) return;
+      checks.push({ codes, allowed: Uint8Array.from(values, value => (matches(value) ? 1 : 0)) });
+    };
+    const sources = filter.sources;
+    addCheck(store.codes('source'), store.dictionary('source'), sources ? source => sources.includes(source) : null);
+    addCheck(store.codes('label'), store.dictionary('label'), valueMatcher(filter.labels));
+    addCheck(store.codes('responseCode'), store.dictionary('responseCode'), valueMatcher(filter.responseCodes));
+    const threadGroupMatches = valueMatcher(filter.threadGroups);
+    addCheck(store.codes('threadName'), store.dictionary('threadName'), threadGroupMatches && (name => threadGroupMatches(threadGroupOf(name))));
+
+    const windowed = filter.from !== undefined || filter.to !== undefined;
+    const checksElapsed = filter.minElapsed !== undefined || filter.maxElapsed !== undefined;
+    if (checks.length === 0 && !windowed && !checksElapsed && filter.success === undefined) return null;
+
+    const timestamps = store.column('timestamp')!;
+    const from = filter.from ?? -Infinity;
+    const to = filter.to ?? Infinity;
+    // A sorted store holds the window as one contiguous stretch of rows
+    const firstAtOrAfter = (time: number) => {
+      let low = 0;
+      let high = store.size;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (timestamps[middle] < time) low = middle + 1;
+        else high = middle;
       }
-      i++;
+      return low;
+    };
+    const start = windowed && store.isSorted ? firstAtOrAfter(from) : 0;
+    const end = windowed && store.isSorted ? firstAtOrAfter(to) : store.size;
+
+    const elapsed = store.column('elapsed')!;
+    const minElapsed = filter.minElapsed ?? -Infinity;
+    const maxElapsed = filter.maxElapsed ?? Infinity;
+    const success = store.successFlags();
+    const wantedSuccess = filter.success === undefined ? -1 : Number(filter.success);
+
+    const rows = new Uint32Array(Math.max(0, end - start));
+    let count = 0;
+    rowLoop: for (let i = start; i < end; i++) {
+      if (timestamps[i] < from || timestamps[i] >= to) continue;
+      if (checksElapsed && (elapsed[i] < minElapsed || elapsed[i] > maxElapsed)) continue;
+      if (wantedSuccess >= 0 && success[i] !== wantedSuccess) continue;
+      for (const check of checks) {
+        if (!check.allowed[check.codes[i]]) continue rowLoop;
+      }
+      rows[count++] = i;
     }
-    
-    fields.push(current.trim());
-    return fields.map(field => field.replace(/^"|"$/g, '')); // Remove surrounding quotes
+    return rows.subarray(0, count);
   }
 
-  private mapFieldToRecord(header: string, value: string, record: Partial<JTLRecord>): void {
-    const headerLower = header.toLowerCase().replace(/[^a-z0-9]/g, ''); // Remove special chars
-    
-    switch (headerLower) {
-      case 'timestamp':
-      case 'timstamp':
-      case 'time':
-        const timestamp = parseInt(value);
-        if (!isNaN(timestamp)) {
-          record.timestamp = timestamp;
-        }
-        break;
-      case 'elapsed':
-      case 'responsetime':
-      case 'rt':
-        const elapsed = parseInt(value);
-        if (!isNaN(elapsed)) {
-          record.elapsed = elapsed;
-        }
-        break;
-      case 'label':
-      case 'sampler':
-      case 'name':
-        record.label = value;
-        break;
-      case 'responsecode':
-      case 'responsemessage':
-      case 'code':
-      case 'status':
-        record.responseCode = value;
-        break;
-      case 'success':
-      case 'result':
-        record.success = value.toLowerCase() === 'true' || value === '1';
-        break;
-      case 'threadname':
-      case 'thread':
-        record.threadName = value;
-        break;
-      case 'failuremessage':
-      case 'error':
-        record.failureMessage = value;
-        break;
-      case 'bytes':
-      case 'size':
-        record.bytes = parseInt(value) || 0;
-        break;
-      case 'sentbytes':
-      case 'requestsize':
-        record.sentBytes = parseInt(value) || 0;
-        break;
-      case 'latency':
-        record.latency = parseInt(value) || 0;
-        break;
-      case 'url':
-        record.url = value;
-        break;
+  /**
+   * Histograms covering the rows `selectRows` picked. Injector filters merge
+   * the per-source histograms kept while parsing; any other filter needs an
+   * index over its own rows, kept for the last filter since every view asks
+   * for it.
+   */
+  private histogramsFor(filter: RecordFilter | undefined, rows: Uint32Array | null): { index: HistogramIndex; sources?: string[] } {
+    if (!rows) return { index: this.histograms };
+    if (!narrowsBeyondSources(filter)) return { index: this.histograms, sources: filter.sources };
+    const key = JSON.stringify(filter);
+    if (this.windowHistograms?.key !== key) {
+      this.windowHistograms = { key, index: HistogramIndex.fromStore(this.store, rows) };
     }
+    return { index: this.windowHistograms.index };
   }
 
-  getLastParseResult(): ParseResult | undefined {
-    return this.lastParseResult;
+  /**
+   * Time buckets start at the first sample, so every bucket but the last
+   * covers its full width and offsets count from the run start, as the
+   * compare overlay and the zoom window expect.
+   */
+  private bucketGrid(min: number, max: number, bucketSize: number) {
+    const bucketDuration = bucketSize * 1000;
+    return { origin: min, bucketDuration, bucketCount: Math.floor((max - min) / bucketDuration) + 1 };
+  }
+
+  private timeBounds(rows: Uint32Array | null): { min: number; max: number } {
+    if (!rows) return { min: this.store.minTimestamp, max: this.store.maxTimestamp };
+    if (rows.length === 0) return { min: 0, max: 0 };
+    const timestamps = this.store.column('timestamp')!;
+    // Rows are selected in index order, so a sorted store has its bounds at the ends
+    if (this.store.isSorted) {
+      return { min: timestamps[rows[0]], max: timestamps[rows[rows.length - 1]] };
+    }
+    let min = Infinity;
+    let max = -Infinity;
+    for (const i of rows) {
+      if (timestamps[i] < min) min = timestamps[i];
+      if (timestamps[i] > max) max = timestamps[i];
+    }
+    return { min, max };
   }
 
-  getRecords(): JTLRecord[] {
-    return this.records;
+  private emptyMetrics(totalRequests = 0): PerformanceMetrics {
+    return {
+      avgResponseTime: 0,
+      maxResponseTime: 0,
+      minResponseTime: 0,
+      throughput: 0,
+      errorRate: 0,
+      totalRequests,
+      successfulRequests: 0,
+      failedRequests: 0,
+      p90ResponseTime: 0,
+      p95ResponseTime: 0,
+      p99ResponseTime: 0,
+      percentiles: {},
+      transactionsPerSecond: 0,
+      testDuration: 0,
+      avgConnectTime: 0,
+      avgLatency: 0
+    };
   }
 
-  calculateMetrics(): PerformanceMetrics {
+  calculateMetrics(filter?: RecordFilter, percentiles: number[] = DEFAULT_PERCENTILES): PerformanceMetrics {
+    if (this.summary) return this.summary.metrics;
+
     // Return cached metrics if available
-    if (this.metricsCache) {
-      return this.metricsCache;
+    const cacheKey = JSON.stringify([filter ?? {}, percentiles]);
+    const cached = this.metricsCache.get(cacheKey);
+    if (cached) {
+      return cached;
     }
     
-    console.log('calculateMetrics called with', this.records.length, 'records');
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    console.log('calculateMetrics called with', total, 'records');
     
-    if (this.records.length === 0) {
+    if (total === 0) {
       console.log('No records found, returning zero metrics');
-        return {
-          avgResponseTime: 0,
-          maxResponseTime: 0,
-          minResponseTime: 0,
-          throughput: 0,
-          errorRate: 0,
-          totalRequests: 0,
-          successfulRequests: 0,
-          failedRequests: 0,
-          p90ResponseTime: 0,
-          p95ResponseTime: 0,
-          p99ResponseTime: 0,
-          transactionsPerSecond: 0,
-          testDuration: 0,
-          avgConnectTime: 0,
-          avgLatency: 0
-        };
+      return this.emptyMetrics();
     }
 
     try {
-      // Debug: log sample records
-      console.log('Sample records:', this.records.slice(0, 3));
-      
-      // More robust filtering - handle different data types
-      const responseTimes = this.records
-        .map(r => {
-          // Handle both number and string values
-          const elapsed = typeof r.elapsed === 'string' ? parseFloat(r.elapsed) : r.elapsed;
-          return elapsed;
-        })
-        .filter(time => time !== undefined && time !== null && !isNaN(time) && time >= 0);
-      
-      console.log('Valid response times found:', responseTimes.length, 'out of', this.records.length);
-      console.log('Sample response times:', responseTimes.slice(0, 5));
-      
-      if (responseTimes.length === 0) {
-        console.log('No valid response times found, checking raw elapsed values...');
-        console.log('Raw elapsed values:', this.records.slice(0, 5).map(r => ({ elapsed: r.elapsed, type: typeof r.elapsed })));
-        
-        return {
-          avgResponseTime: 0,
-          maxResponseTime: 0,
-          minResponseTime: 0,
-          throughput: 0,
-          errorRate: 100,
-          totalRequests: this.records.length,
-          successfulRequests: 0,
-          failedRequests: this.records.length,
-          p90ResponseTime: 0,
-          p95ResponseTime: 0,
-          p99ResponseTime: 0,
-          transactionsPerSecond: 0,
-          testDuration: 0,
-          avgConnectTime: 0,
-          avgLatency: 0
-        };
+      const elapsed = store.column('elapsed')!;
+      const latency = store.column('latency');
+      const connect = store.column('connect');
+      const success = store.successFlags();
+
+      // Single pass over the columns for everything except percentiles
+      let elapsedSum = 0;
+      let minElapsed = Infinity;
+      let maxElapsed = -Infinity;
+      let latencySum = 0;
+      let connectSum = 0;
+      let successfulRequests = 0;
+
+      for (let n = 0; n < total; n++) {
+        const i = rows ? rows[n] : n;
+        const time = elapsed[i];
+        elapsedSum += time;
+        if (time < minElapsed) minElapsed = time;
+        if (time > maxElapsed) maxElapsed = time;
+        if (latency) latencySum += latency[i];
+        if (connect) connectSum += connect[i];
+        successfulRequests += success[i];
       }
 
-      const successfulRequests = this.records.filter(r => r.success === true).length;
-      const failedRequests = this.records.length - successfulRequests;
+      const failedRequests = total - successfulRequests;
       
-      // Sort response times for percentile calculations
-      const sortedResponseTimes = [...responseTimes].sort((a, b) => a - b);
+      const { index, sources } = this.histogramsFor(filter, rows);
+      const histogram = index.overall(sources);
       
-      // More robust timestamp handling
-      const timestamps = this.records
-        .map(r => {
-          const timestamp = typeof r.timestamp === 'string' ? parseFloat(r.timestamp) : r.timestamp;
-          return timestamp;
-        })
-        .filter(t => t !== undefined && t !== null && !isNaN(t) && t > 0);
-      
-      const testDuration = timestamps.length > 1 
-        ? (Math.max(...timestamps) - Math.min(...timestamps)) / 1000 
+      const bounds = this.timeBounds(rows);
+      const testDuration = total > 1 && bounds.max > bounds.min
+        ? (bounds.max - bounds.min) / 1000 
         : 1; // Default to 1 second if no valid duration
 
-      // Calculate additional metrics
-      const connectTimes = this.records
-        .map(r => r.latency || 0)
-        .filter(time => time >= 0);
-      
-      const latencies = this.records
-        .map(r => r.latency || 0)
-        .filter(time => time >= 0);
-      
       const metrics = {
-        avgResponseTime: Math.round(responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length),
-        maxResponseTime: Math.round(Math.max(...responseTimes)),
-        minResponseTime: Math.round(Math.min(...responseTimes)),
-        throughput: Math.round((testDuration > 0 ? this.records.length / testDuration : 0) * 100) / 100,
-        errorRate: Math.round((failedRequests / this.records.length) * 100 * 100) / 100,
-        totalRequests: this.records.length,
+        avgResponseTime: Math.round(elapsedSum / total),
+        maxResponseTime: Math.round(maxElapsed),
+        minResponseTime: Math.round(minElapsed),
+        throughput: Math.round((testDuration > 0 ? total / testDuration : 0) * 100) / 100,
+        errorRate: Math.round((failedRequests / total) * 100 * 100) / 100,
+        totalRequests: total,
         successfulRequests,
         failedRequests,
-        p90ResponseTime: Math.round(this.calculatePercentile(sortedResponseTimes, 90)),
-        p95ResponseTime: Math.round(this.calculatePercentile(sortedResponseTimes, 95)),
-        p99ResponseTime: Math.round(this.calculatePercentile(sortedResponseTimes, 99)),
-        transactionsPerSecond: Math.round((testDuration > 0 ? this.records.length / testDuration : 0) * 100) / 100,
+        p90ResponseTime: Math.round(histogram.percentile(90)),
+        p95ResponseTime: Math.round(histogram.percentile(95)),
+        p99ResponseTime: Math.round(histogram.percentile(99)),
+        percentiles: this.percentileValues(histogram, percentiles),
+        transactionsPerSecond: Math.round((testDuration > 0 ? total / testDuration : 0) * 100) / 100,
         testDuration: Math.round(testDuration * 100) / 100,
-        avgConnectTime: connectTimes.length > 0 ? Math.round(connectTimes.reduce((sum, time) => sum + time, 0) / connectTimes.length) : 0,
-        avgLatency: latencies.length > 0 ? Math.round(latencies.reduce((sum, time) => sum + time, 0) / latencies.length) : 0
+        avgConnectTime: Math.round(connectSum / total),
+        avgLatency: Math.round(latencySum / total)
       };
       
       console.log('Calculated metrics:', metrics);
-      this.metricsCache = metrics; // Cache the result
+      this.metricsCache.set(cacheKey, metrics); // Cache the result
       return metrics;
     } catch (error) {
       console.error('Error calculating metrics:', error);
-      console.error('Records causing error:', this.records.slice(0, 3));
-      return {
-        avgResponseTime: 0,
-        maxResponseTime: 0,
-        minResponseTime: 0,
-        throughput: 0,
-        errorRate: 0,
-        totalRequests: this.records.length,
-        successfulRequests: 0,
-        failedRequests: 0,
-        p90ResponseTime: 0,
-        p95ResponseTime: 0,
-        p99ResponseTime: 0,
-        transactionsPerSecond: 0,
-        testDuration: 0,
-        avgConnectTime: 0,
-        avgLatency: 0
-      };
+      return this.emptyMetrics(total);
     }
   }
 
-  private calculatePercentile(sortedArray: number[], percentile: number): number {
-    if (!sortedArray || sortedArray.length === 0) return 0;
-    if (percentile <= 0) return sortedArray[0];
-    if (percentile >= 100) return sortedArray[sortedArray.length - 1];
-    
-    const index = Math.ceil((percentile / 100) * sortedArray.length) - 1;
-    const safeIndex = Math.max(0, Math.min(index, sortedArray.length - 1));
-    return sortedArray[safeIndex] || 0;
+  /** The configured percentiles of a histogram, keyed by `percentileKey`. */
+  private percentileValues(histogram: LogLinearHistogram, percentiles: number[]): Record<string, number> {
+    const values: Record<string, number> = {};
+    for (const percentile of percentiles) {
+      values[percentileKey(percentile)] = Math.round(histogram.percentile(percentile));
+    }
+    return values;
   }
 
-  generateChartData(bucketSize: number = 30): ChartDataPoint[] {
-    if (this.records.length === 0) return [];
+  generateChartData(
+    bucketSize: number = 30,
+    filter?: RecordFilter,
+    percentiles: number[] = DEFAULT_PERCENTILES
+  ): ChartDataPoint[] {
+    if (this.summary) return this.summary.chartData;
+
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    if (total === 0) return [];
 
     try {
-      // Filter out invalid timestamps and records
-      const validRecords = this.records.filter(record => 
-        record.timestamp && 
-        !isNaN(record.timestamp) && 
-        record.timestamp > 0 &&
-        record.elapsed !== undefined &&
-        !isNaN(record.elapsed)
-      );
-
-      if (validRecords.length === 0) return [];
-
-      const timestamps = validRecords.map(r => r.timestamp);
-      const minTimestamp = Math.min(...timestamps);
-      const maxTimestamp = Math.max(...timestamps);
+      const timestamps = store.column('timestamp')!;
+      const elapsed = store.column('elapsed')!;
+      const latency = store.column('latency');
+      const connect = store.column('connect');
+      const bytes = store.column('bytes');
+      const allThreads = store.column('allThreads');
+      const success = store.successFlags();
+      const { min: minTimestamp, max: maxTimestamp } = this.timeBounds(rows);
       
       // Prevent division by zero or negative bucket duration
       if (bucketSize <= 0 || minTimestamp >= maxTimestamp) {
+        const firstIndex = rows ? rows[0] : 0;
+        const first = elapsed[firstIndex];
+        const firstPhases = this.splitPhases(first, latency?.[firstIndex] || 0, connect?.[firstIndex] || 0);
+        let errors = 0;
+        for (let n = 0; n < total; n++) errors += 1 - success[rows ? rows[n] : n];
         return [{
           timestamp: new Date(minTimestamp).toLocaleTimeString(),
-          responseTime: Math.round(validRecords[0].elapsed),
-          throughput: validRecords.length,
-          errors: validRecords.filter(r => !r.success).length,
-          minResponseTime: Math.round(validRecords[0].elapsed),
-          maxResponseTime: Math.round(validRecords[0].elapsed),
-          p90ResponseTime: Math.round(validRecords[0].elapsed),
-          p95ResponseTime: Math.round(validRecords[0].elapsed),
-          p99ResponseTime: Math.round(validRecords[0].elapsed),
+          offset: 0,
+          start: minTimestamp,
+          responseTime: Math.round(first),
+          throughput: total,
+          errors,
+          minResponseTime: Math.round(first),
+          maxResponseTime: Math.round(first),
+          p90ResponseTime: Math.round(first),
+          p95ResponseTime: Math.round(first),
+          p99ResponseTime: Math.round(first),
+          percentiles: Object.fromEntries(percentiles.map(percentile => [percentileKey(percentile), Math.round(first)])),
           successRate: 100,
-          avgConnectTime: validRecords[0].latency || 0,
-          avgLatency: validRecords[0].latency || 0,
-          bandwidth: (validRecords[0].bytes || 0) / bucketSize
+          avgConnectTime: firstPhases.connect,
+          avgLatency: latency?.[firstIndex] || 0,
+          avgServerTime: firstPhases.server,
+          avgDownloadTime: firstPhases.download,
+          bandwidth: (bytes?.[firstIndex] || 0) / bucketSize,
+          activeThreads: allThreads?.[firstIndex]
         }];
       }
 
-      const bucketDuration = bucketSize * 1000; // Convert to milliseconds
-      const buckets: Map<number, { responses: number[], errors: number, connectTimes: number[], latencies: number[], bytes: number[] }> = new Map();
+      const { origin, bucketDuration, bucketCount } = this.bucketGrid(minTimestamp, maxTimestamp, bucketSize);
+      const counts = new Uint32Array(bucketCount);
+      const errors = new Uint32Array(bucketCount);
+      const elapsedSums = new Float64Array(bucketCount);
+      const latencySums = new Float64Array(bucketCount);
+      const connectSums = new Float64Array(bucketCount);
+      const serverSums = new Float64Array(bucketCount);
+      const downloadSums = new Float64Array(bucketCount);
+      const bytesSums = new Float64Array(bucketCount);
+      const threadSums = new Float64Array(bucketCount);
+      const histograms = Array.from({ length: bucketCount }, () => new LogLinearHistogram());
+
+      // Buckets as wide as whole slots reuse the histograms kept while parsing. Slots
+      // are kept on the epoch rather than the run start, so each goes to the bucket
+      // holding its middle, which shifts a bucket's percentiles by up to half a slot
+      const slotDuration = HISTOGRAM_SLOT_SECONDS * 1000;
+      const fromSlots = bucketDuration % slotDuration === 0;
+      if (fromSlots) {
+        const { index, sources } = this.histogramsFor(filter, rows);
+        for (const [slot, histogram] of index.bySlot(sources)) {
+          const bucketKey = Math.floor((slot * slotDuration + slotDuration / 2 - origin) / bucketDuration);
+          histograms[Math.min(bucketCount - 1, Math.max(0, bucketKey))].merge(histogram);
+        }
+      }
       
       // Group records into time buckets
-      validRecords.forEach(record => {
-        const timeDiff = record.timestamp - minTimestamp;
-        const bucketKey = Math.floor(timeDiff / bucketDuration);
-        
-        // Ensure bucketKey is valid
-        if (bucketKey < 0 || !isFinite(bucketKey)) return;
-        
-        if (!buckets.has(bucketKey)) {
-          buckets.set(bucketKey, { responses: [], errors: 0, connectTimes: [], latencies: [], bytes: [] });
-        }
-        
-        const bucket = buckets.get(bucketKey)!;
-        bucket.responses.push(record.elapsed);
-        bucket.connectTimes.push(record.latency || 0);
-        bucket.latencies.push(record.latency || 0);
-        bucket.bytes.push(record.bytes || 0);
-        if (!record.success) {
-          bucket.errors++;
+      for (let n = 0; n < total; n++) {
+        const i = rows ? rows[n] : n;
+        const bucketKey = Math.floor((timestamps[i] - origin) / bucketDuration);
+        if (!fromSlots) histograms[bucketKey].record(elapsed[i]);
+        counts[bucketKey]++;
+        elapsedSums[bucketKey] += elapsed[i];
+        if (latency) latencySums[bucketKey] += latency[i];
+        const phases = this.splitPhases(elapsed[i], latency?.[i] || 0, connect?.[i] || 0);
+        connectSums[bucketKey] += phases.connect;
+        serverSums[bucketKey] += phases.server;
+        downloadSums[bucketKey] += phases.download;
+        if (bytes) bytesSums[bucketKey] += bytes[i];
+        if (allThreads) threadSums[bucketKey] += allThreads[i];
+        errors[bucketKey] += 1 - success[i];
+      }
+
+      // A bucket whose samples all fell in slots given to its neighbours reads its own
+      if (fromSlots && histograms.some((histogram, bucketKey) => histogram.count === 0 && counts[bucketKey] > 0)) {
+        const missing = histograms.map((histogram, bucketKey) => histogram.count === 0 && counts[bucketKey] > 0);
+        for (let n = 0; n < total; n++) {
+          const i = rows ? rows[n] : n;
+          const bucketKey = Math.floor((timestamps[i] - origin) / bucketDuration);
+          if (missing[bucketKey]) histograms[bucketKey].record(elapsed[i]);
         }
-      });
-      
+      }
+
       // Convert buckets to chart data
       const chartData: ChartDataPoint[] = [];
       
-      for (const [bucketKey, bucket] of buckets.entries()) {
-        if (!isFinite(bucketKey) || bucketKey < 0) continue;
+      for (let bucketKey = 0; bucketKey < bucketCount; bucketKey++) {
+        const count = counts[bucketKey];
+        if (count === 0) continue;
         
-        const timestamp = new Date(minTimestamp + (bucketKey * bucketDuration));
-        const avgResponseTime = bucket.responses.length > 0 
-          ? bucket.responses.reduce((sum, time) => sum + time, 0) / bucket.responses.length 
-          : 0;
-        const throughput = bucket.responses.length / bucketSize; // requests per second
-        
-        // Calculate additional metrics for the bucket
-        const sortedResponses = [...bucket.responses].sort((a, b) => a - b);
-        const successCount = bucket.responses.length - bucket.errors;
-        const successRate = bucket.responses.length > 0 ? (successCount / bucket.responses.length) * 100 : 0;
-        const avgConnectTime = bucket.connectTimes.length > 0 
-          ? bucket.connectTimes.reduce((sum, time) => sum + time, 0) / bucket.connectTimes.length 
-          : 0;
-        const avgLatency = bucket.latencies.length > 0 
-          ? bucket.latencies.reduce((sum, time) => sum + time, 0) / bucket.latencies.length 
-          : 0;
-        const bandwidth = bucket.bytes.length > 0 
-          ? bucket.bytes.reduce((sum, bytes) => sum + bytes, 0) / bucketSize / 1024 // KB/s
-          : 0;
+        const timestamp = new Date(origin + (bucketKey * bucketDuration));
+        const histogram = histograms[bucketKey];
+        const avgResponseTime = elapsedSums[bucketKey] / count;
+        const throughput = count / bucketSize; // requests per second
+        const successRate = ((count - errors[bucketKey]) / count) * 100;
+        const avgLatency = latencySums[bucketKey] / count;
+        const bandwidth = bytesSums[bucketKey] / bucketSize / 1024; // KB/s
         
         chartData.push({
           timestamp: timestamp.toLocaleTimeString(),
+          offset: bucketKey * bucketSize,
+          start: timestamp.getTime(),
           responseTime: Math.round(avgResponseTime || 0),
           throughput: Math.round((throughput || 0) * 10) / 10,
-          errors: bucket.errors || 0,
-          minResponseTime: Math.round(sortedResponses[0] || 0),
-          maxResponseTime: Math.round(sortedResponses[sortedResponses.length - 1] || 0),
-          p90ResponseTime: Math.round(this.calculatePercentile(sortedResponses, 90)),
-          p95ResponseTime: Math.round(this.calculatePercentile(sortedResponses, 95)),
-          p99ResponseTime: Math.round(this.calculatePercentile(sortedResponses, 99)),
+          errors: errors[bucketKey],
+          minResponseTime: Math.round(histogram.min),
+          maxResponseTime: Math.round(histogram.max),
+          p90ResponseTime: Math.round(histogram.percentile(90)),
+          p95ResponseTime: Math.round(histogram.percentile(95)),
+          p99ResponseTime: Math.round(histogram.percentile(99)),
+          percentiles: this.percentileValues(histogram, percentiles),
           successRate: Math.round(successRate * 100) / 100,
-          avgConnectTime: Math.round(avgConnectTime),
+          avgConnectTime: Math.round(connectSums[bucketKey] / count),
           avgLatency: Math.round(avgLatency),
-          bandwidth: Math.round(bandwidth * 100) / 100
+          avgServerTime: Math.round(serverSums[bucketKey] / count),
+          avgDownloadTime: Math.round(downloadSums[bucketKey] / count),
+          bandwidth: Math.round(bandwidth * 100) / 100,
+          activeThreads: allThreads ? Math.round((threadSums[bucketKey] / count) * 10) / 10 : undefined
         });
       }
       
-      return chartData.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      return chartData;
     } catch (error) {
       console.error('Error generating chart data:', error);
       return [];
     }
   }
 
-  getTransactionBreakdown() {
-    const breakdown = new Map<string, { count: number, avgTime: number, errorCount: number }>();
+  getTransactionBreakdown(filter?: RecordFilter): TransactionSummary[] {
+    if (this.summary) return this.summary.transactions;
+
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    const labelCodes = store.codes('label')!;
+    const labels = store.dictionary('label');
+    const timestamps = store.column('timestamp')!;
+    const elapsed = store.column('elapsed')!;
+    const bytes = store.column('bytes');
+    const sentBytes = store.column('sentBytes');
+    const success = store.successFlags();
+
+    // Per-label accumulators indexed by dictionary code
+    const counts = new Uint32Array(labels.length);
+    const elapsedSums = new Float64Array(labels.length);
+    const elapsedSquares = new Float64Array(labels.length);
+    const bytesSums = new Float64Array(labels.length);
+    const sentBytesSums = new Float64Array(labels.length);
+    const errorCounts = new Uint32Array(labels.length);
+    const firstStarts = new Float64Array(labels.length).fill(Infinity);
+    const lastEnds = new Float64Array(labels.length).fill(-Infinity);
+
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      const code = labelCodes[i];
+      const time = elapsed[i];
+      counts[code]++;
+      if (timestamps[i] < firstStarts[code]) firstStarts[code] = timestamps[i];
+      if (timestamps[i] + time > lastEnds[code]) lastEnds[code] = timestamps[i] + time;
+      elapsedSums[code] += time;
+      elapsedSquares[code] += time * time;
+      if (bytes) bytesSums[code] += bytes[i];
+      if (sentBytes) sentBytesSums[code] += sentBytes[i];
+      errorCounts[code] += 1 - success[i];
+    }
     
-    this.records.forEach(record => {
-      if (!breakdown.has(record.label)) {
-        breakdown.set(record.label, { count: 0, avgTime: 0, errorCount: 0 });
-      }
-      
-      const stats = breakdown.get(record.label)!;
-      stats.count++;
-      stats.avgTime = (stats.avgTime * (stats.count - 1) + record.elapsed) / stats.count;
-      if (!record.success) {
-        stats.errorCount++;
-      }
+    const { index, sources } = this.histogramsFor(filter, rows);
+    const histograms = index.byLabel(sources);
+
+    const breakdown: TransactionSummary[] = [];
+    for (let code = 0; code < labels.length; code++) {
+      const count = counts[code];
+      if (count === 0) continue;
+      const histogram = histograms.get(labels[code])!;
+      const mean = elapsedSums[code] / count;
+      const variance = Math.max(0, elapsedSquares[code] / count - mean * mean);
+      // Like JMeter's Aggregate Report, rates cover the label's own first start to last end
+      const span = lastEnds[code] > firstStarts[code] ? (lastEnds[code] - firstStarts[code]) / 1000 : 1;
+      breakdown.push({
+        label: labels[code],
+        count,
+        avgResponseTime: Math.round(mean),
+        minResponseTime: histogram.min,
+        maxResponseTime: histogram.max,
+        medianResponseTime: Math.round(histogram.percentile(50)),
+        p90ResponseTime: Math.round(histogram.percentile(90)),
+        p95ResponseTime: Math.round(histogram.percentile(95)),
+        p99ResponseTime: Math.round(histogram.percentile(99)),
+        stdDevResponseTime: Math.round(Math.sqrt(variance) * 100) / 100,
+        throughput: Math.round((count / span) * 100) / 100,
+        receivedKBPerSec: Math.round((bytesSums[code] / 1024 / span) * 100) / 100,
+        sentKBPerSec: Math.round((sentBytesSums[code] / 1024 / span) * 100) / 100,
+        avgBytes: Math.round(bytesSums[code] / count),
+        errorRate: (errorCounts[code] / count) * 100,
+        errorCount: errorCounts[code]
+      });
+    }
+    return breakdown;
+  }
+
+  /** Raw response times grouped by label, in timestamp order, for distribution tests. */
+  getElapsedByLabel(filter?: RecordFilter): Map<string, Int32Array> {
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    const labelCodes = store.codes('label')!;
+    const labels = store.dictionary('label');
+    const elapsed = store.column('elapsed')!;
+
+    const counts = new Uint32Array(labels.length);
+    for (let n = 0; n < total; n++) {
+      counts[labelCodes[rows ? rows[n] : n]]++;
+    }
+
+    const samples: Int32Array[] = Array.from(counts, count => new Int32Array(count));
+    const cursor = new Uint32Array(labels.length);
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      const code = labelCodes[i];
+      samples[code][cursor[code]++] = elapsed[i];
+    }
+
+    const byLabel = new Map<string, Int32Array>();
+    for (let code = 0; code < labels.length; code++) {
+      if (counts[code] > 0) byLabel.set(labels[code], samples[code]);
+    }
+    return byLabel;
+  }
+
+  /**
+   * Response time histograms of the filtered samples, for the whole run and
+   * per transaction. Null for runs reopened without their raw samples.
+   */
+  getResponseTimeHistograms(filter?: RecordFilter): ResponseTimeHistograms | null {
+    if (this.summary) return null;
+    const { index, sources } = this.histogramsFor(filter, this.selectRows(filter));
+    return { overall: index.overall(sources), byLabel: index.byLabel(sources) };
+  }
+
+  /**
+   * Sample counts per time bucket and logarithmic latency band, for the whole
+   * run or one transaction. Null for runs reopened without their raw samples.
+   */
+  generateHeatmap(bucketSize: number = 30, filter?: RecordFilter, label?: string): ResponseTimeHeatmap | null {
+    if (this.summary || bucketSize <= 0) return null;
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    const timestamps = store.column('timestamp')!;
+    const elapsed = store.column('elapsed')!;
+    const labelCodes = store.codes('label')!;
+    const labelCode = label === undefined ? -1 : store.dictionary('label').indexOf(label);
+
+    let maxElapsed = 0;
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      if (label !== undefined && labelCodes[i] !== labelCode) continue;
+      if (elapsed[i] > maxElapsed) maxElapsed = elapsed[i];
+    }
+
+    const bandEdges = heatmapBandEdges(maxElapsed);
+    const bands = bandEdges.length - 1;
+    const { min, max } = this.timeBounds(rows);
+    const { origin, bucketDuration, bucketCount } = this.bucketGrid(min, max, bucketSize);
+    const counts = new Uint32Array(total > 0 ? bucketCount * bands : 0);
+
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      if (label !== undefined && labelCodes[i] !== labelCode) continue;
+      const bucketKey = Math.floor((timestamps[i] - origin) / bucketDuration);
+      counts[bucketKey * bands + heatmapBandOf(bandEdges, elapsed[i])]++;
+    }
+
+    const columns: HeatmapColumn[] = [];
+    let maxCount = 0;
+    for (let bucketKey = 0; total > 0 && bucketKey < bucketCount; bucketKey++) {
+      const start = origin + bucketKey * bucketDuration;
+      const column = Array.from(counts.subarray(bucketKey * bands, (bucketKey + 1) * bands));
+      maxCount = Math.max(maxCount, ...column);
+      columns.push({ timestamp: new Date(start).toLocaleTimeString(), start, offset: bucketKey * bucketSize, counts: column });
+    }
+    return { bandEdges, columns, bucketSize, maxCount };
+  }
+
+  /**
+   * Samples for the scatter plot. Past `maxPoints` every n-th sample is
+   * kept, with failures thinned separately and given up to half the points
+   * so error bursts stay visible. Null for runs without raw samples.
+   */
+  getScatterSamples(filter?: RecordFilter, maxPoints = MAX_SCATTER_POINTS): ScatterSamples | null {
+    if (this.summary) return null;
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    const success = store.successFlags();
+
+    let failures = 0;
+    for (let n = 0; n < total; n++) failures += 1 - success[rows ? rows[n] : n];
+    const failureBudget = Math.min(failures, Math.floor(maxPoints / 2));
+    const failureStep = Math.max(1, Math.ceil(failures / Math.max(1, failureBudget)));
+    const successStep = Math.max(1, Math.ceil((total - failures) / Math.max(1, maxPoints - failureBudget)));
+
+    const picked: number[] = [];
+    let seenFailures = 0;
+    let seenSuccesses = 0;
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      if (success[i] ? seenSuccesses++ % successStep === 0 : seenFailures++ % failureStep === 0) picked.push(i);
+    }
+
+    const timestamps = store.column('timestamp')!;
+    const elapsed = store.column('elapsed')!;
+    const labelCodes = store.codes('label')!;
+    const threadCodes = store.codes('threadName');
+    const threadNames = store.dictionary('threadName');
+    const threadGroups: string[] = [];
+    const groupOfThread = Uint32Array.from(threadNames, name => {
+      const group = threadGroupOf(name);
+      const code = threadGroups.indexOf(group);
+      return code >= 0 ? code : threadGroups.push(group) - 1;
     });
-    
-    return Array.from(breakdown.entries()).map(([label, stats]) => ({
-      label,
-      count: stats.count,
-      avgResponseTime: Math.round(stats.avgTime),
-      errorRate: (stats.errorCount / stats.count) * 100,
-      errorCount: stats.errorCount
-    }));
-  }
-
-  getTopErrors(): ErrorAnalysis[] {
-    // Filter only failed requests
-    const failedRequests = this.records.filter(record => !record.success);
-    
-    if (failedRequests.length === 0) {
-      return [];
+
+    return {
+      timestamps: Float64Array.from(picked, i => timestamps[i]),
+      elapsed: Int32Array.from(picked, i => elapsed[i]),
+      success: Uint8Array.from(picked, i => success[i]),
+      labelCodes: Uint32Array.from(picked, i => labelCodes[i]),
+      labels: store.dictionary('label'),
+      threadGroupCodes: Uint32Array.from(picked, i => groupOfThread[threadCodes ? threadCodes[i] : 0]),
+      threadGroups,
+      total
+    };
+  }
+
+  /**
+   * Ramp-up, steady state and ramp-down of the whole run, ignoring filters,
+   * from its 30 second time series. Null for stored summaries and runs
+   * without a clear steady state.
+   */
+  getRunPhases(): RunPhases | null {
+    if (this.summary || this.store.size === 0) return null;
+    const bucketSize = 30;
+    return detectRunPhases(this.generateChartData(bucketSize), bucketSize, {
+      from: this.store.minTimestamp,
+      to: this.store.maxTimestamp + 1
+    });
+  }
+
+  /**
+   * Throughput and response times grouped by the number of active threads.
+   * Each second of the run gets the average thread count its samples
+   * reported, and seconds are grouped into at most `maxLevels` levels so
+   * large thread counts still give enough samples per point. Returns null
+   * when the results did not record thread counts.
+   */
+  getConcurrencyProfile(filter?: RecordFilter, maxLevels = 50): ConcurrencyPoint[] | null {
+    if (this.summary) return null;
+    const store = this.store;
+    const allThreads = store.column('allThreads');
+    if (!allThreads) return null;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    if (total === 0) return [];
+
+    const timestamps = store.column('timestamp')!;
+    const elapsed = store.column('elapsed')!;
+    const { min, max } = this.timeBounds(rows);
+    const firstSecond = Math.floor(min / 1000);
+    const secondOf = (timestamp: number) => Math.floor(timestamp / 1000) - firstSecond;
+    const secondCount = secondOf(max) + 1;
+
+    const threadSums = new Float64Array(secondCount);
+    const sampleCounts = new Uint32Array(secondCount);
+    let maxThreads = 0;
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      const second = secondOf(timestamps[i]);
+      threadSums[second] += allThreads[i];
+      sampleCounts[second]++;
+      if (allThreads[i] > maxThreads) maxThreads = allThreads[i];
+    }
+    if (maxThreads === 0) return [];
+
+    const levelWidth = Math.max(1, Math.ceil(maxThreads / maxLevels));
+    const levelCount = Math.ceil(maxThreads / levelWidth) + 1;
+    const levelOfSecond = new Int32Array(secondCount).fill(-1);
+    const seconds = new Uint32Array(levelCount);
+    const levelThreads = new Float64Array(levelCount);
+    for (let second = 0; second < secondCount; second++) {
+      if (sampleCounts[second] === 0) continue;
+      const threads = threadSums[second] / sampleCounts[second];
+      const level = Math.ceil(threads / levelWidth);
+      levelOfSecond[second] = level;
+      seconds[level]++;
+      levelThreads[level] += threads;
+    }
+
+    const counts = new Uint32Array(levelCount);
+    const elapsedSums = new Float64Array(levelCount);
+    const histograms = Array.from({ length: levelCount }, () => new LogLinearHistogram());
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      const level = levelOfSecond[secondOf(timestamps[i])];
+      counts[level]++;
+      elapsedSums[level] += elapsed[i];
+      histograms[level].record(elapsed[i]);
     }
 
+    const points: ConcurrencyPoint[] = [];
+    // Level zero only holds seconds where every sample reported no active threads
+    for (let level = 1; level < levelCount; level++) {
+      if (counts[level] === 0) continue;
+      points.push({
+        threads: Math.round((levelThreads[level] / seconds[level]) * 10) / 10,
+        throughput: Math.round((counts[level] / seconds[level]) * 10) / 10,
+        avgResponseTime: Math.round(elapsedSums[level] / counts[level]),
+        p95ResponseTime: Math.round(histograms[level].percentile(95)),
+        samples: counts[level],
+        seconds: seconds[level]
+      });
+    }
+    return points;
+  }
+
+  /** Samples matching a query, in timestamp order, up to `limit` of them along with the full count. */
+  getSamples(query: SampleQuery, filter?: RecordFilter, limit = 500): { records: JTLRecord[]; total: number } {
+    if (this.summary) return { records: [], total: 0 };
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const size = rows ? rows.length : store.size;
+    const timestamps = store.column('timestamp')!;
+    const elapsed = store.column('elapsed')!;
+    const labelCodes = store.codes('label')!;
+    const labelCode = query.label === undefined ? -1 : store.dictionary('label').indexOf(query.label);
+
+    const records: JTLRecord[] = [];
+    let total = 0;
+    for (let n = 0; n < size; n++) {
+      const i = rows ? rows[n] : n;
+      if (query.from !== undefined && timestamps[i] < query.from) continue;
+      if (query.to !== undefined && timestamps[i] >= query.to) continue;
+      if (query.minElapsed !== undefined && elapsed[i] < query.minElapsed) continue;
+      if (query.maxElapsed !== undefined && elapsed[i] >= query.maxElapsed) continue;
+      if (query.label !== undefined && labelCodes[i] !== labelCode) continue;
+      total++;
+      if (records.length < limit) records.push(store.get(i));
+    }
+    return { records, total };
+  }
+
+  /**
+   * Store rows of the samples within the filter that match a search, in
+   * timestamp order unless sorted by a column; ties keep timestamp order.
+   * Records are left to the caller to materialize as they are shown.
+   */
+  findSamples(search: SampleSearch | null, filter?: RecordFilter, sort?: SampleSort): Uint32Array {
+    if (this.summary) return new Uint32Array(0);
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const size = rows ? rows.length : store.size;
+    const matches = search ? compileSampleSearch(search, store) : null;
+
+    const found = new Uint32Array(size);
+    let count = 0;
+    for (let n = 0; n < size; n++) {
+      const i = rows ? rows[n] : n;
+      if (!matches || matches(i)) found[count++] = i;
+    }
+    const result = found.slice(0, count);
+    if (sort) {
+      const key = sampleSortKey(store, sort.field);
+      const direction = sort.descending ? -1 : 1;
+      result.sort((a, b) => direction * (key(a) - key(b)) || a - b);
+    }
+    return result;
+  }
+
+  /** The slowest matching samples, slowest first. */
+  getSlowestSamples(filter?: RecordFilter, limit = 20): JTLRecord[] {
+    if (this.summary) return [];
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const size = rows ? rows.length : store.size;
+    const elapsed = store.column('elapsed')!;
+
+    // Rows kept in descending order of elapsed time, so only the cutoff needs checking
+    const slowest: number[] = [];
+    for (let n = 0; n < size; n++) {
+      const i = rows ? rows[n] : n;
+      if (slowest.length === limit && elapsed[i] <= elapsed[slowest[limit - 1]]) continue;
+      let position = slowest.length;
+      while (position > 0 && elapsed[slowest[position - 1]] < elapsed[i]) position--;
+      slowest.splice(position, 0, i);
+      if (slowest.length > limit) slowest.pop();
+    }
+    return slowest.map(i => store.get(i));
+  }
+
+  /** Matching samples per response code, most frequent first. */
+  getResponseCodeDistribution(filter?: RecordFilter): ResponseCodeCount[] {
+    if (this.summary) return [];
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    const responseCodes = store.codes('responseCode')!;
+    const responseCodeValues = store.dictionary('responseCode');
+    const success = store.successFlags();
+
+    const counts = new Uint32Array(responseCodeValues.length);
+    const failures = new Uint32Array(responseCodeValues.length);
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      counts[responseCodes[i]]++;
+      if (!success[i]) failures[responseCodes[i]]++;
+    }
+
+    const distribution: ResponseCodeCount[] = [];
+    counts.forEach((count, code) => {
+      if (count === 0) return;
+      distribution.push({
+        responseCode: responseCodeValues[code] || 'Unknown',
+        count,
+        percentage: (count / total) * 100,
+        failures: failures[code]
+      });
+    });
+    return distribution.sort((a, b) => b.count - a.count);
+  }
+
+  private splitPhases(elapsed: number, latency: number, connect: number): PhaseTiming {
+    return {
+      connect,
+      server: Math.max(0, latency - connect),
+      download: Math.max(0, elapsed - latency)
+    };
+  }
+
+  getPhaseBreakdown(filter?: RecordFilter): PhaseBreakdown {
+    if (this.summary) return this.summary.phases;
+
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    const labelCodes = store.codes('label')!;
+    const labels = store.dictionary('label');
+    const elapsed = store.column('elapsed')!;
+    const latency = store.column('latency');
+    const connect = store.column('connect');
+
+    const counts = new Uint32Array(labels.length);
+    const connectSums = new Float64Array(labels.length);
+    const serverSums = new Float64Array(labels.length);
+    const downloadSums = new Float64Array(labels.length);
+
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      const code = labelCodes[i];
+      const phases = this.splitPhases(elapsed[i], latency?.[i] || 0, connect?.[i] || 0);
+      counts[code]++;
+      connectSums[code] += phases.connect;
+      serverSums[code] += phases.server;
+      downloadSums[code] += phases.download;
+    }
+
+    const average = (sum: number, count: number) => count > 0 ? Math.round(sum / count) : 0;
+    const transactions: PhaseBreakdown['transactions'] = [];
+    let connectTotal = 0;
+    let serverTotal = 0;
+    let downloadTotal = 0;
+
+    for (let code = 0; code < labels.length; code++) {
+      const count = counts[code];
+      if (count === 0) continue;
+      connectTotal += connectSums[code];
+      serverTotal += serverSums[code];
+      downloadTotal += downloadSums[code];
+      transactions.push({
+        label: labels[code],
+        count,
+        connect: average(connectSums[code], count),
+        server: average(serverSums[code], count),
+        download: average(downloadSums[code], count)
+      });
+    }
+
+    return {
+      overall: {
+        connect: average(connectTotal, total),
+        server: average(serverTotal, total),
+        download: average(downloadTotal, total)
+      },
+      transactions
+    };
+  }
+
+  getTopErrors(filter?: RecordFilter): ErrorAnalysis[] {
+    if (this.summary) return this.summary.topErrors;
+
+    const store = this.store;
+    const rows = this.selectRows(filter);
+    const total = rows ? rows.length : store.size;
+    const success = store.successFlags();
+    const labelCodes = store.codes('label')!;
+    const responseCodes = store.codes('responseCode')!;
+    const failureCodes = store.codes('failureMessage');
+    const labels = store.dictionary('label');
+    const responseCodeValues = store.dictionary('responseCode');
+    const failureMessages = store.dictionary('failureMessage');
+
     // Group errors by combination of response code and failure message
-    const errorGroups = new Map<string, {
+    const errorGroups = new Map<number, {
       responseCode: string;
       errorMessage: string;
       count: number;
-      affectedTransactions: Set<string>;
+      affectedTransactions: Set<number>;
     }>();
+    let totalErrors = 0;
+
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      if (success[i]) continue;
+      totalErrors++;
 
-    failedRequests.forEach(record => {
-      const errorMessage = record.failureMessage || 'Unknown error';
-      const responseCode = record.responseCode || 'Unknown';
-      const errorKey = `${responseCode}:${errorMessage}`;
+      const responseCode = responseCodes[i];
+      const failureMessage = failureCodes ? failureCodes[i] : 0;
+      const errorKey = failureMessage * responseCodeValues.length + responseCode;
 
-      if (!errorGroups.has(errorKey)) {
-        errorGroups.set(errorKey, {
-          responseCode,
-          errorMessage,
+      let errorGroup = errorGroups.get(errorKey);
+      if (!errorGroup) {
+        errorGroup = {
+          responseCode: responseCodeValues[responseCode] || 'Unknown',
+          errorMessage: failureMessages[failureMessage] || 'Unknown error',
           count: 0,
           affectedTransactions: new Set()
-        });
+        };
+        errorGroups.set(errorKey, errorGroup);
       }
 
-      const errorGroup = errorGroups.get(errorKey)!;
       errorGroup.count++;
-      errorGroup.affectedTransactions.add(record.label);
-    });
+      errorGroup.affectedTransactions.add(labelCodes[i]);
+    }
+    
+    if (totalErrors === 0) {
+      return [];
+    }
 
     // Convert to ErrorAnalysis array and sort by count
-    const totalErrors = failedRequests.length;
     const errorAnalysis: ErrorAnalysis[] = Array.from(errorGroups.values())
       .map(group => ({
         errorMessage: group.errorMessage,
         responseCode: group.responseCode,
         count: group.count,
         percentage: (group.count / totalErrors) * 100,
-        affectedTransactions: Array.from(group.affectedTransactions)
+        affectedTransactions: Array.from(group.affectedTransactions, code => labels[code])
       }))
       .sort((a, b) => b.count - a.count);
 
     return errorAnalysis;
   }
-}
\ No newline at end of file
+
+  /** Headline numbers per source, for spotting a single misbehaving injector. */
+  getSourceBreakdown(): SourceSummary[] {
+    return this.getSources().map(source => {
+      const metrics = this.calculateMetrics({ sources: [source] });
+      return {
+        source,
+        count: metrics.totalRequests,
+        avgResponseTime: metrics.avgResponseTime,
+        p95ResponseTime: metrics.p95ResponseTime,
+        errorRate: metrics.errorRate,
+        throughput: metrics.throughput
+      };
+    });
+  }
+
+  /**
+   * Average response time per source over time. All sources share the same
+   * buckets, anchored to the start of the whole run, so their lines align.
+   */
+  generateSourceTimeline(bucketSize: number = 30): SourceTimelinePoint[] {
+    const store = this.store;
+    const total = store.size;
+    const sourceCodes = store.codes('source');
+    if (total === 0 || !sourceCodes || bucketSize <= 0) return [];
+
+    const sources = store.dictionary('source');
+    const timestamps = store.column('timestamp')!;
+    const elapsed = store.column('elapsed')!;
+    const minTimestamp = store.minTimestamp;
+    const bucketDuration = bucketSize * 1000;
+    const bucketCount = Math.floor((store.maxTimestamp - minTimestamp) / bucketDuration) + 1;
+
+    // Accumulators laid out as [bucket * sources.length + sourceCode]
+    const counts = new Uint32Array(bucketCount * sources.length);
+    const elapsedSums = new Float64Array(bucketCount * sources.length);
+
+    for (let i = 0; i < total; i++) {
+      const bucketKey = Math.floor((timestamps[i] - minTimestamp) / bucketDuration);
+      const slot = bucketKey * sources.length + sourceCodes[i];
+      counts[slot]++;
+      elapsedSums[slot] += elapsed[i];
+    }
+
+    const timeline: SourceTimelinePoint[] = [];
+    for (let bucketKey = 0; bucketKey < bucketCount; bucketKey++) {
+      const point: SourceTimelinePoint = {
+        timestamp: new Date(minTimestamp + bucketKey * bucketDuration).toLocaleTimeString()
+      };
+      let hasData = false;
+      for (let code = 1; code < sources.length; code++) {
+        const slot = bucketKey * sources.length + code;
+        if (counts[slot] === 0) continue;
+        point[sources[code]] = Math.round(elapsedSums[slot] / counts[slot]);
+        hasData = true;
+      }
+      if (hasData) timeline.push(point);
+    }
+    return timeline;
+  }
+
+  /**
+   * Counts satisfied and tolerating samples per group. `groupOf` maps a row
+   * to its group; failed samples are always frustrated.
+   */
+  private countApdex(
+    settings: ApdexSettings,
+    rows: Uint32Array | null,
+    groupCount: number,
+    groupOf: (row: number) => number
+  ) {
+    const store = this.store;
+    const total = rows ? rows.length : store.size;
+    const labelCodes = store.codes('label')!;
+    const elapsed = store.column('elapsed')!;
+    const success = store.successFlags();
+    const thresholds = Float64Array.from(store.dictionary('label'), label => apdexThreshold(settings, label));
+
+    const satisfied = new Uint32Array(groupCount);
+    const tolerating = new Uint32Array(groupCount);
+    const totals = new Uint32Array(groupCount);
+    for (let n = 0; n < total; n++) {
+      const i = rows ? rows[n] : n;
+      const group = groupOf(i);
+      totals[group]++;
+      if (!success[i]) continue;
+      const threshold = thresholds[labelCodes[i]];
+      if (elapsed[i] <= threshold) satisfied[group]++;
+      else if (elapsed[i] <= threshold * settings.toleratingMultiplier) tolerating[group]++;
+    }
+    return { satisfied, tolerating, totals };
+  }
+
+  /** Apdex of the whole run, or null for runs reopened without their raw samples. */
+  calculateApdex(settings: ApdexSettings, filter?: RecordFilter): ApdexScore | null {
+    if (this.summary) return null;
+    const { satisfied, tolerating, totals } = this.countApdex(settings, this.selectRows(filter), 1, () => 0);
+    return toApdexScore(satisfied[0], tolerating[0], totals[0]);
+  }
+
+  getApdexByLabel(settings: ApdexSettings, filter?: RecordFilter): Map<string, ApdexScore> {
+    const byLabel = new Map<string, ApdexScore>();
+    if (this.summary) return byLabel;
+
+    const labels = this.store.dictionary('label');
+    const labelCodes = this.store.codes('label')!;
+    const { satisfied, tolerating, totals } = this.countApdex(settings, this.selectRows(filter), labels.length, i => labelCodes[i]);
+    for (let code = 0; code < labels.length; code++) {
+      if (totals[code] > 0) byLabel.set(labels[code], toApdexScore(satisfied[code], tolerating[code], totals[code]));
+    }
+    return byLabel;
+  }
+
+  /** Apdex per time bucket, on the same buckets as `generateChartData`. */
+  generateApdexTimeline(settings: ApdexSettings, bucketSize: number = 30, filter?: RecordFilter): ApdexTimelinePoint[] {
+    if (this.summary || bucketSize <= 0) return [];
+    const rows = this.selectRows(filter);
+    if ((rows ? rows.length : this.store.size) === 0) return [];
+
+    const timestamps = this.store.column('timestamp')!;
+    const { min: minTimestamp, max: maxTimestamp } = this.timeBounds(rows);
+    const { origin, bucketDuration, bucketCount } = this.bucketGrid(minTimestamp, maxTimestamp, bucketSize);
+    const { satisfied, tolerating, totals } = this.countApdex(
+      settings,
+      rows,
+      bucketCount,
+      i => Math.floor((timestamps[i] - origin) / bucketDuration)
+    );
+
+    const timeline: ApdexTimelinePoint[] = [];
+    for (let bucketKey = 0; bucketKey < bucketCount; bucketKey++) {
+      if (totals[bucketKey] === 0) continue;
+      timeline.push({
+        timestamp: new Date(origin + bucketKey * bucketDuration).toLocaleTimeString(),
+        offset: bucketKey * bucketSize,
+        apdex: toApdexScore(satisfied[bucketKey], tolerating[bucketKey], totals[bucketKey]).score
+      });
+    }
+    return timeline;
+  }
+}
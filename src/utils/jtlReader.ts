@@ -0,0 +1,351 @@
+import type { ColumnMapping, JTLFormat, JTLRecord, MappableField, ParseResult } from './jtlParser';
+import { JTLXmlReader } from './jtlXmlReader';
+
+type DebugInfo = ParseResult['debugInfo'];
+
+const PREVIEW_LINES = 10;
+
+/**
+ * Incremental JTL reader. Text can be pushed in arbitrary chunks (as read
+ * from `File.stream()`); the format and, for delimited files, the delimiter
+ * and headers are detected from the first content seen. Each push returns
+ * the records completed by that chunk.
+ *
+ * Passing a column mapping skips detection entirely: the file is read as
+ * delimited text and each column is assigned to the field the mapping names.
+ */
+export class JTLReader {
+  private format?: JTLFormat;
+  private xmlReader?: JTLXmlReader;
+  private pending = '';
+  private headerLine?: string;
+  private headers: string[] = [];
+  private fields: (MappableField | null)[] = [];
+  private delimiter = '';
+  private previewLines: string[] = [];
+  private totalLines = 0;
+  private parsedRecords = 0;
+  private validRecords = 0;
+  private sampleRecord?: Partial<JTLRecord>;
+
+  constructor(private readonly mapping?: ColumnMapping) {
+    if (mapping) {
+      this.format = 'csv';
+      this.delimiter = mapping.delimiter;
+      this.fields = mapping.columns;
+    }
+  }
+
+  push(chunk: string): JTLRecord[] {
+    if (!this.format) {
+      this.pending += chunk;
+      // Wait for the first non-whitespace character before deciding
+      const start = this.pending.replace(/^\uFEFF/, '').trimStart();
+      if (!start) return [];
+      this.format = start.startsWith('<') ? 'xml' : 'csv';
+      console.log(`Detected format: ${this.format}`);
+      if (this.format === 'xml') {
+        this.xmlReader = new JTLXmlReader();
+      }
+      chunk = this.pending.replace(/^\uFEFF/, '');
+      this.pending = '';
+    }
+
+    if (this.xmlReader) {
+      this.countLines(chunk);
+      return this.completeAll(this.xmlReader.push(chunk));
+    }
+
+    const text = this.pending + chunk;
+    const lastNewline = text.lastIndexOf('\n');
+    if (lastNewline === -1) {
+      this.pending = text;
+      return [];
+    }
+    this.pending = text.slice(lastNewline + 1);
+    return this.parseLines(text.slice(0, lastNewline).split('\n'));
+  }
+
+  finish(): JTLRecord[] {
+    if (this.xmlReader) {
+      return this.completeAll(this.xmlReader.finish());
+    }
+
+    const rest = this.pending;
+    this.pending = '';
+    return rest.trim() ? this.parseLines([rest]) : [];
+  }
+
+  getDebugInfo(): DebugInfo {
+    if (this.xmlReader) {
+      return {
+        totalLines: this.totalLines,
+        detectedFormat: 'xml',
+        headerLine: this.xmlReader.getRootTag(),
+        detectedHeaders: this.xmlReader.getAttributeNames(),
+        detectedDelimiter: '',
+        previewLines: this.previewLines,
+        parsedRecords: this.xmlReader.getSampleCount(),
+        validRecords: this.validRecords,
+        sampleRecord: this.sampleRecord
+      };
+    }
+
+    return {
+      totalLines: this.totalLines,
+      detectedFormat: 'csv',
+      headerLine: this.headerLine || '',
+      detectedHeaders: this.headers,
+      detectedDelimiter: this.delimiter,
+      previewLines: this.previewLines,
+      parsedRecords: this.parsedRecords,
+      validRecords: this.validRecords,
+      sampleRecord: this.sampleRecord
+    };
+  }
+
+  getError(): string | undefined {
+    if (this.validRecords > 0) return undefined;
+    if (this.xmlReader) {
+      return 'No valid samples found in XML results. Expected <httpSample> or <sample> elements.';
+    }
+    if (this.totalLines < 2) {
+      return 'File must contain at least a header and one data row';
+    }
+    return 'No valid records found. Check file format and required fields.';
+  }
+
+  private countLines(chunk: string): void {
+    for (let i = chunk.indexOf('\n'); i !== -1; i = chunk.indexOf('\n', i + 1)) {
+      this.totalLines++;
+    }
+  }
+
+  private parseLines(lines: string[]): JTLRecord[] {
+    const records: JTLRecord[] = [];
+
+    for (const rawLine of lines) {
+      this.totalLines++;
+      const line = rawLine.trim();
+      if (!line) continue; // Skip empty lines
+
+      if (this.previewLines.length < PREVIEW_LINES) {
+        this.previewLines.push(line);
+      }
+
+      if (this.headerLine === undefined && (!this.mapping || this.mapping.hasHeader)) {
+        this.headerLine = line;
+        if (!this.mapping) {
+          // Auto-detect delimiter
+          this.delimiter = detectDelimiter(line);
+          this.headers = parseRow(line, this.delimiter);
+          this.fields = this.headers.map(resolveHeader);
+          console.log(`Detected delimiter: "${this.delimiter}"`);
+          console.log('Detected headers:', this.headers);
+        } else {
+          this.headers = parseRow(line, this.delimiter);
+        }
+        continue;
+      }
+
+      const values = parseRow(line, this.delimiter);
+      this.parsedRecords++;
+
+      if (values.length >= Math.min(this.fields.length, 3)) { // At least 3 fields required
+        const record: Partial<JTLRecord> = {};
+
+        this.fields.forEach((field, index) => {
+          if (!field || index >= values.length) return;
+
+          const value = values[index]?.trim();
+          if (!value) return;
+
+          assignField(field, value, record);
+        });
+
+        const completed = this.completeRecord(record);
+        if (completed) records.push(completed);
+      }
+    }
+
+    return records;
+  }
+
+  private completeAll(samples: Partial<JTLRecord>[]): JTLRecord[] {
+    const records: JTLRecord[] = [];
+    for (const sample of samples) {
+      const completed = this.completeRecord(sample);
+      if (completed) records.push(completed);
+    }
+    return records;
+  }
+
+  private completeRecord(record: Partial<JTLRecord>): JTLRecord | null {
+    // More flexible validation - require either timestamp OR elapsed, and at least one other field
+    const hasTimeData = record.timestamp || record.elapsed !== undefined;
+    const hasLabel = record.label && record.label !== '';
+    const hasResponseData = record.responseCode || record.success !== undefined;
+
+    if (!hasTimeData || !(hasLabel || hasResponseData)) {
+      return null;
+    }
+
+    // Fill in missing required fields with defaults
+    if (!record.timestamp && record.elapsed !== undefined) {
+      record.timestamp = Date.now() - (this.validRecords * 1000); // Fake timestamps
+    }
+    if (record.elapsed === undefined && record.timestamp) {
+      record.elapsed = 100; // Default response time
+    }
+    if (!record.label) record.label = 'Unknown';
+    if (!record.responseCode) record.responseCode = '200';
+    if (record.success === undefined) record.success = true;
+    if (!record.threadName) record.threadName = 'Thread Group 1-1';
+
+    this.validRecords++;
+    if (!this.sampleRecord) {
+      this.sampleRecord = { ...record };
+    }
+
+    return record as JTLRecord;
+  }
+}
+
+export const detectDelimiter = (line: string): string => {
+  const delimiters = ['\t', ',', ';', '|'];
+  let bestDelimiter = '\t';
+  let maxFields = 0;
+
+  for (const delimiter of delimiters) {
+    const fields = parseRow(line, delimiter);
+    if (fields.length > maxFields) {
+      maxFields = fields.length;
+      bestDelimiter = delimiter;
+    }
+  }
+
+  return bestDelimiter;
+};
+
+export const parseRow = (line: string, delimiter: string): string[] => {
+  // Handle quoted fields
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  // Fields whose quotes were parsed keep any quote they end up starting or ending with
+  const quoted: boolean[] = [];
+  let isQuoted = false;
+  let i = 0;
+
+  while (i < line.length) {
+    const char = line[i];
+    
+    if (char === '"' && inQuotes && line[i+1] === '"') {
+      // A doubled quote inside a quoted field stands for one quote
+      current += char;
+      i++;
+    } else if (char === '"' && (i === 0 || line[i-1] === delimiter || inQuotes)) {
+      inQuotes = !inQuotes;
+      isQuoted = true;
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      quoted.push(isQuoted);
+      current = '';
+      isQuoted = false;
+    } else {
+      current += char;
+    }
+    i++;
+  }
+  
+  fields.push(current.trim());
+  quoted.push(isQuoted);
+  return fields.map((field, index) => (quoted[index] ? field : field.replace(/^"|"$/g, ''))); // Remove surrounding quotes
+};
+
+/** Maps a column header (JMeter's or a common alias) to the record field it holds. */
+export const resolveHeader = (header: string): MappableField | null => {
+  const headerLower = header.toLowerCase().replace(/[^a-z0-9]/g, ''); // Remove special chars
+  
+  switch (headerLower) {
+    case 'timestamp':
+    case 'timstamp':
+    case 'time':
+      return 'timestamp';
+    case 'elapsed':
+    case 'responsetime':
+    case 'rt':
+      return 'elapsed';
+    case 'label':
+    case 'sampler':
+    case 'name':
+      return 'label';
+    case 'responsecode':
+    case 'code':
+    case 'status':
+      return 'responseCode';
+    case 'responsemessage':
+      return 'responseMessage';
+    case 'success':
+    case 'result':
+      return 'success';
+    case 'threadname':
+    case 'thread':
+      return 'threadName';
+    case 'failuremessage':
+    case 'error':
+      return 'failureMessage';
+    case 'bytes':
+    case 'size':
+      return 'bytes';
+    case 'sentbytes':
+    case 'requestsize':
+      return 'sentBytes';
+    case 'latency':
+      return 'latency';
+    case 'connect':
+    case 'connecttime':
+      return 'connect';
+    case 'idletime':
+      return 'idleTime';
+    case 'grpthreads':
+    case 'groupthreads':
+      return 'grpThreads';
+    case 'allthreads':
+    case 'activethreads':
+      return 'allThreads';
+    case 'url':
+      return 'url';
+    case 'hostname':
+      return 'hostname';
+    default:
+      return null;
+  }
+};
+
+const assignField = (field: MappableField, value: string, record: Partial<JTLRecord>): void => {
+  switch (field) {
+    case 'timestamp':
+    case 'elapsed': {
+      const parsed = parseInt(value);
+      if (!isNaN(parsed)) {
+        record[field] = parsed;
+      }
+      break;
+    }
+    case 'success':
+      record.success = value.toLowerCase() === 'true' || value === '1';
+      break;
+    case 'bytes':
+    case 'sentBytes':
+    case 'grpThreads':
+    case 'allThreads':
+    case 'latency':
+    case 'connect':
+    case 'idleTime':
+      record[field] = parseInt(value) || 0;
+      break;
+    default:
+      record[field] = value;
+  }
+};
@@ -0,0 +1,152 @@
+import { ColumnMapping, JTLParser, JTLRecord, ParseResult } from './jtlParser';
+import { JTLSource, Compression } from './archive';
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+export type WorkerRequest = { type: 'parse'; file: Blob; compression?: Compression; mapping?: ColumnMapping };
+
+export type WorkerResponse =
+  | { type: 'records'; records: JTLRecord[] }
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; debugInfo: ParseResult['debugInfo']; error?: string }
+  | { type: 'error'; message: string };
+
+interface ParseOptions {
+  mapping?: ColumnMapping;
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+interface SourceResult {
+  debugInfo: ParseResult['debugInfo'];
+  error?: string;
+  records: number;
+}
+
+/**
+ * Streams a JTL file through a Web Worker so large results never block the
+ * main thread. Records arrive in batches and are appended to the parser,
+ * tagged with the source name, as they come in; aborting the signal
+ * terminates the worker. Compressed sources are inflated inside the worker
+ * as they stream.
+ */
+const streamSource = (
+  source: JTLSource,
+  parser: JTLParser,
+  { mapping, onProgress, signal }: ParseOptions
+) =>
+  new Promise<SourceResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ParseCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/jtlParser.worker.ts', import.meta.url), { type: 'module' });
+    let records = 0;
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new ParseCancelledError());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'records':
+          parser.appendRecords(message.records, source.name);
+          records += message.records.length;
+          break;
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          cleanup();
+          resolve({ debugInfo: message.debugInfo, error: message.error, records });
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Worker failed while parsing the file'));
+    };
+
+    worker.postMessage({ type: 'parse', file: source.blob, compression: source.compression, mapping } satisfies WorkerRequest);
+  });
+
+/** Makes source names unique so records from same-named files stay apart. */
+const uniqueSourceNames = (sources: JTLSource[]): JTLSource[] => {
+  const seen = new Map<string, number>();
+  return sources.map(source => {
+    const count = (seen.get(source.name) ?? 0) + 1;
+    seen.set(source.name, count);
+    return count === 1 ? source : { ...source, name: `${source.name} (${count})` };
+  });
+};
+
+/**
+ * Parses one or more JTL files into a single parser. Files are streamed one
+ * after another, typically one per load generator, and merged into a single
+ * timeline once all of them are in. Progress is reported across all files.
+ */
+export const parseFilesInWorker = async (sources: JTLSource[], { mapping, onProgress, signal }: ParseOptions = {}) => {
+  const parser = new JTLParser();
+  const totalBytes = sources.reduce((sum, source) => sum + source.blob.size, 0);
+  const results: SourceResult[] = [];
+  const emptySources: string[] = [];
+  let bytesDone = 0;
+  let rowsDone = 0;
+
+  for (const source of uniqueSourceNames(sources)) {
+    const result = await streamSource(source, parser, {
+      mapping,
+      signal,
+      onProgress: (progress) => onProgress?.({
+        bytesRead: bytesDone + progress.bytesRead,
+        totalBytes,
+        rows: rowsDone + progress.rows
+      })
+    });
+    results.push(result);
+    if (result.records === 0) emptySources.push(source.name);
+    bytesDone += source.blob.size;
+    rowsDone += result.records;
+  }
+
+  // Report the first file that produced records, with line counts summed over all files
+  const primary = results.find(result => result.records > 0) ?? results[0];
+  const debugInfo: ParseResult['debugInfo'] = {
+    ...primary.debugInfo,
+    totalLines: results.reduce((sum, result) => sum + result.debugInfo.totalLines, 0),
+    parsedRecords: results.reduce((sum, result) => sum + result.debugInfo.parsedRecords, 0),
+    validRecords: results.reduce((sum, result) => sum + result.debugInfo.validRecords, 0)
+  };
+
+  return {
+    parser,
+    result: parser.completeParse(debugInfo, primary.error),
+    emptySources: results.length > 1 ? emptySources : []
+  };
+};
@@ -0,0 +1,81 @@
+import type { NumericField, RecordStore, StringField } from './recordStore';
+
+type JtlColumn =
+  | { header: string; kind: 'number'; field: NumericField }
+  | { header: string; kind: 'string'; field: StringField }
+  | { header: string; kind: 'success' };
+
+/** Columns in the order JMeter writes them, under its header names. */
+const JTL_COLUMNS: JtlColumn[] = [
+  { header: 'timeStamp', kind: 'number', field: 'timestamp' },
+  { header: 'elapsed', kind: 'number', field: 'elapsed' },
+  { header: 'label', kind: 'string', field: 'label' },
+  { header: 'responseCode', kind: 'string', field: 'responseCode' },
+  { header: 'responseMessage', kind: 'string', field: 'responseMessage' },
+  { header: 'threadName', kind: 'string', field: 'threadName' },
+  { header: 'success', kind: 'success' },
+  { header: 'failureMessage', kind: 'string', field: 'failureMessage' },
+  { header: 'bytes', kind: 'number', field: 'bytes' },
+  { header: 'sentBytes', kind: 'number', field: 'sentBytes' },
+  { header: 'grpThreads', kind: 'number', field: 'grpThreads' },
+  { header: 'allThreads', kind: 'number', field: 'allThreads' },
+  { header: 'URL', kind: 'string', field: 'url' },
+  { header: 'Latency', kind: 'number', field: 'latency' },
+  { header: 'Encoding', kind: 'string', field: 'encoding' },
+  { header: 'SampleCount', kind: 'number', field: 'sampleCount' },
+  { header: 'ErrorCount', kind: 'number', field: 'errorCount' },
+  { header: 'Hostname', kind: 'string', field: 'hostname' },
+  { header: 'IdleTime', kind: 'number', field: 'idleTime' },
+  { header: 'Connect', kind: 'number', field: 'connect' }
+];
+
+/** Columns every result file has; the others are only written when the run recorded them. */
+const REQUIRED_HEADERS = new Set(['timeStamp', 'elapsed', 'label', 'responseCode', 'threadName', 'success']);
+
+// Lines are joined in chunks so millions of samples never become a single string
+const LINES_PER_CHUNK = 10000;
+
+/**
+ * Quotes a value the way JMeter does when it holds the delimiter or a quote.
+ * Line breaks become spaces, since result files are read back line by line.
+ */
+const csvValue = (text: string) => {
+  const value = text.replace(/\r?\n|\r/g, ' ');
+  return /[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Writes samples back out as a comma-separated JTL file with a header row,
+ * in the given row order. Returns the file in chunks, ready for a Blob.
+ */
+export const jtlCsvChunks = (store: RecordStore, rows: ArrayLike<number>): string[] => {
+  const readers: { header: string; read: (row: number) => string }[] = [];
+  for (const column of JTL_COLUMNS) {
+    if (column.kind === 'success') {
+      const success = store.successFlags();
+      readers.push({ header: column.header, read: row => (success[row] ? 'true' : 'false') });
+    } else if (column.kind === 'number') {
+      const values = store.column(column.field);
+      if (values) readers.push({ header: column.header, read: row => String(values[row]) });
+      else if (REQUIRED_HEADERS.has(column.header)) readers.push({ header: column.header, read: () => '0' });
+    } else {
+      const codes = store.codes(column.field);
+      const values = store.dictionary(column.field).map(csvValue);
+      if (codes) readers.push({ header: column.header, read: row => values[codes[row]] });
+      else if (REQUIRED_HEADERS.has(column.header)) readers.push({ header: column.header, read: () => '' });
+    }
+  }
+
+  const chunks = [readers.map(reader => reader.header).join(',') + '\n'];
+  let lines: string[] = [];
+  for (let n = 0; n < rows.length; n++) {
+    const row = rows[n];
+    lines.push(readers.map(reader => reader.read(row)).join(','));
+    if (lines.length === LINES_PER_CHUNK) {
+      chunks.push(lines.join('\n') + '\n');
+      lines = [];
+    }
+  }
+  if (lines.length > 0) chunks.push(lines.join('\n') + '\n');
+  return chunks;
+};
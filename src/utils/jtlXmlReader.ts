@@ -0,0 +1,311 @@
+import type { JTLRecord } from './jtlParser';
+
+// Element names JMeter writes for samples in XML output
+const SAMPLE_ELEMENTS = new Set(['httpSample', 'sample']);
+
+// Elements whose text content we care about; everything else (responseData,
+// requestHeader, ...) is skipped without buffering
+const TEXT_ELEMENTS = new Set(['java.net.URL', 'failureMessage', 'failure', 'error']);
+
+interface SampleFrame {
+  record: Partial<JTLRecord>;
+  children: Partial<JTLRecord>[];
+}
+
+interface AssertionFrame {
+  failure: boolean;
+  error: boolean;
+  failureMessage?: string;
+}
+
+const decodeEntities = (value: string): string => {
+  if (value.indexOf('&') === -1) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return isNaN(code) ? match : String.fromCodePoint(code);
+  });
+};
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+const toInt = (value: string): number | undefined => {
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Incremental reader for JMeter's XML result format
+ * (`jmeter.save.saveservice.output_format=xml`).
+ *
+ * Content can be pushed in arbitrary chunks; each call returns the samples
+ * completed so far. Nested sub-samples are returned after their parent with
+ * `parentLabel` set, the same way the CSV writer emits sub-results as rows.
+ */
+export class JTLXmlReader {
+  private buffer = '';
+  private elements: string[] = [];
+  private samples: SampleFrame[] = [];
+  private assertion?: AssertionFrame;
+  private text = '';
+  private rootTag = '';
+  private attributeNames = new Set<string>();
+  private sampleCount = 0;
+
+  push(chunk: string): Partial<JTLRecord>[] {
+    this.buffer += chunk;
+    const completed: Partial<JTLRecord>[] = [];
+    const buf = this.buffer;
+    let pos = 0;
+
+    while (pos < buf.length) {
+      const lt = buf.indexOf('<', pos);
+      if (lt === -1) {
+        this.handleText(buf.slice(pos));
+        pos = buf.length;
+        break;
+      }
+      if (lt > pos) this.handleText(buf.slice(pos, lt));
+
+      if (buf.startsWith('<!--', lt)) {
+        const end = buf.indexOf('-->', lt + 4);
+        if (end === -1) { pos = lt; break; }
+        pos = end + 3;
+        continue;
+      }
+      if (buf.startsWith('<![CDATA[', lt)) {
+        const end = buf.indexOf(']]>', lt + 9);
+        if (end === -1) { pos = lt; break; }
+        this.handleText(buf.slice(lt + 9, end), true);
+        pos = end + 3;
+        continue;
+      }
+      if (buf.startsWith('<?', lt) || buf.startsWith('<!', lt)) {
+        const end = buf.indexOf('>', lt + 2);
+        if (end === -1) { pos = lt; break; }
+        pos = end + 1;
+        continue;
+      }
+
+      const end = this.findTagEnd(buf, lt + 1);
+      if (end === -1) { pos = lt; break; }
+      this.handleTag(buf.slice(lt + 1, end), completed);
+      pos = end + 1;
+    }
+
+    this.buffer = buf.slice(pos);
+    return completed;
+  }
+
+  finish(): Partial<JTLRecord>[] {
+    // Truncated files (e.g. a test that was killed) leave samples open; keep what we have
+    const completed: Partial<JTLRecord>[] = [];
+    while (this.samples.length > 0) {
+      this.closeSample(completed);
+    }
+    this.buffer = '';
+    return completed;
+  }
+
+  getRootTag(): string {
+    return this.rootTag;
+  }
+
+  getAttributeNames(): string[] {
+    return Array.from(this.attributeNames);
+  }
+
+  getSampleCount(): number {
+    return this.sampleCount;
+  }
+
+  private findTagEnd(buf: string, from: number): number {
+    let quote = '';
+    for (let i = from; i < buf.length; i++) {
+      const char = buf[i];
+      if (quote) {
+        if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private handleText(raw: string, isCData = false): void {
+    const current = this.elements[this.elements.length - 1];
+    if (!TEXT_ELEMENTS.has(current)) return;
+    // Text is decoded when the element closes, since an entity may span chunks
+    this.text += isCData ? raw.replace(/&/g, '&amp;') : raw;
+  }
+
+  private handleTag(content: string, completed: Partial<JTLRecord>[]): void {
+    if (content.startsWith('/')) {
+      this.closeElement(content.slice(1).trim(), completed);
+      return;
+    }
+
+    const selfClosing = content.endsWith('/');
+    const body = selfClosing ? content.slice(0, -1) : content;
+    const nameEnd = body.search(/\s|$/);
+    const name = body.slice(0, nameEnd);
+
+    if (!this.rootTag) {
+      this.rootTag = `<${content}>`;
+    }
+
+    if (SAMPLE_ELEMENTS.has(name)) {
+      const attributes = parseAttributes(body.slice(nameEnd));
+      Object.keys(attributes).forEach(key => this.attributeNames.add(key));
+      const parent = this.samples[this.samples.length - 1];
+      const record = this.mapAttributes(attributes);
+      if (parent?.record.label) {
+        record.parentLabel = parent.record.label;
+      }
+      this.samples.push({ record, children: [] });
+      this.sampleCount++;
+    } else if (name === 'assertionResult') {
+      this.assertion = { failure: false, error: false };
+    }
+
+    this.elements.push(name);
+    this.text = '';
+
+    if (selfClosing) {
+      this.closeElement(name, completed);
+    }
+  }
+
+  private closeElement(name: string, completed: Partial<JTLRecord>[]): void {
+    // Tolerate mismatched end tags by unwinding to the matching open element
+    const index = this.elements.lastIndexOf(name);
+    if (index === -1) return;
+    this.elements.length = index;
+
+    const sample = this.samples[this.samples.length - 1];
+    const value = decodeEntities(this.text).trim();
+    this.text = '';
+
+    switch (name) {
+      case 'java.net.URL':
+        if (sample && value) sample.record.url = value;
+        break;
+      case 'failureMessage':
+        if (this.assertion && value) this.assertion.failureMessage = value;
+        break;
+      case 'failure':
+        if (this.assertion) this.assertion.failure = value === 'true';
+        break;
+      case 'error':
+        if (this.assertion) this.assertion.error = value === 'true';
+        break;
+      case 'assertionResult':
+        if (sample && this.assertion && (this.assertion.failure || this.assertion.error)) {
+          // JMeter's CSV writer reports the first failing assertion's message
+          if (!sample.record.failureMessage && this.assertion.failureMessage) {
+            sample.record.failureMessage = this.assertion.failureMessage;
+          }
+        }
+        this.assertion = undefined;
+        break;
+      default:
+        if (SAMPLE_ELEMENTS.has(name)) {
+          this.closeSample(completed);
+        }
+    }
+  }
+
+  private closeSample(completed: Partial<JTLRecord>[]): void {
+    const frame = this.samples.pop();
+    if (!frame) return;
+
+    const parent = this.samples[this.samples.length - 1];
+    const records = [frame.record, ...frame.children];
+    if (parent) {
+      parent.children.push(...records);
+    } else {
+      completed.push(...records);
+    }
+  }
+
+  private mapAttributes(attributes: Record<string, string>): Partial<JTLRecord> {
+    const record: Partial<JTLRecord> = {};
+
+    for (const [name, value] of Object.entries(attributes)) {
+      switch (name) {
+        case 't':
+          record.elapsed = toInt(value);
+          break;
+        case 'lt':
+          record.latency = toInt(value);
+          break;
+        case 'ct':
+          record.connect = toInt(value);
+          break;
+        case 'it':
+          record.idleTime = toInt(value);
+          break;
+        case 'ts':
+          record.timestamp = toInt(value);
+          break;
+        case 's':
+          record.success = value === 'true';
+          break;
+        case 'lb':
+          record.label = value;
+          break;
+        case 'rc':
+          record.responseCode = value;
+          break;
+        case 'rm':
+          record.responseMessage = value;
+          break;
+        case 'tn':
+          record.threadName = value;
+          break;
+        case 'by':
+          record.bytes = toInt(value);
+          break;
+        case 'sby':
+          record.sentBytes = toInt(value);
+          break;
+        case 'ng':
+          record.grpThreads = toInt(value);
+          break;
+        case 'na':
+          record.allThreads = toInt(value);
+          break;
+        case 'sc':
+          record.sampleCount = toInt(value);
+          break;
+        case 'ec':
+          record.errorCount = toInt(value);
+          break;
+        case 'de':
+          record.encoding = value;
+          break;
+        case 'hn':
+          record.hostname = value;
+          break;
+      }
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,60 @@
+import { ColumnMapping, MappableField } from './jtlParser';
+
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+const STORAGE_KEY = 'columnMappingProfiles';
+
+export const FIELD_LABELS: Record<MappableField, string> = {
+  timestamp: 'Timestamp',
+  elapsed: 'Elapsed',
+  label: 'Label',
+  responseCode: 'Response Code',
+  responseMessage: 'Response Message',
+  success: 'Success',
+  threadName: 'Thread Name',
+  failureMessage: 'Failure Message',
+  bytes: 'Bytes',
+  sentBytes: 'Sent Bytes',
+  grpThreads: 'Group Threads',
+  allThreads: 'All Threads',
+  url: 'URL',
+  latency: 'Latency',
+  connect: 'Connect',
+  idleTime: 'Idle Time',
+  hostname: 'Hostname'
+};
+
+// Column order JMeter writes with the default saveservice settings, used for
+// files saved with jmeter.save.saveservice.print_field_names=false
+export const JMETER_DEFAULT_COLUMNS: (MappableField | null)[] = [
+  'timestamp', 'elapsed', 'label', 'responseCode', 'responseMessage', 'threadName', null, 'success',
+  'failureMessage', 'bytes', 'sentBytes', 'grpThreads', 'allThreads', 'url', 'latency', 'idleTime', 'connect'
+];
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Error loading column mapping profiles:', error);
+    return [];
+  }
+};
+
+const storeMappingProfiles = (profiles: MappingProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const saveMappingProfile = (profile: MappingProfile): MappingProfile[] => {
+  const profiles = loadMappingProfiles().filter(existing => existing.name !== profile.name);
+  return storeMappingProfiles([...profiles, profile]);
+};
+
+export const deleteMappingProfile = (name: string): MappingProfile[] => {
+  return storeMappingProfiles(loadMappingProfiles().filter(profile => profile.name !== name));
+};
@@ -0,0 +1,68 @@
+import type { RecordFilter, ValueFilter } from './jtlParser';
+
+/** The parts of a filter set from the filter bar, which presets save. */
+export type SampleFilter = Pick<RecordFilter, 'labels' | 'responseCodes' | 'threadGroups' | 'success' | 'minElapsed' | 'maxElapsed'>;
+
+const SAMPLE_FILTER_KEYS: (keyof SampleFilter)[] = ['labels', 'responseCodes', 'threadGroups', 'success', 'minElapsed', 'maxElapsed'];
+
+export const pickSampleFilter = (filter: RecordFilter): SampleFilter =>
+  Object.fromEntries(SAMPLE_FILTER_KEYS.map(key => [key, filter[key]]));
+
+/** The filter with its filter bar settings replaced, leaving injectors and the time window alone. */
+export const withSampleFilter = (filter: RecordFilter, sampleFilter: SampleFilter): RecordFilter => ({
+  ...filter,
+  ...pickSampleFilter(sampleFilter)
+});
+
+const nonEmpty = (entries: string[] | undefined) => (entries ?? []).filter(entry => entry !== '');
+
+/**
+ * Compiles the entries of a value filter into a test, or null when the
+ * filter lets everything through. Patterns match anywhere in the value, as
+ * SLA label patterns do. Throws on an invalid regular expression.
+ */
+export const valueMatcher = (filter: ValueFilter | undefined): ((value: string) => boolean) | null => {
+  const include = nonEmpty(filter?.include);
+  const exclude = nonEmpty(filter?.exclude);
+  if (include.length === 0 && exclude.length === 0) return null;
+
+  const compile = (entries: string[]): ((value: string) => boolean) => {
+    if (filter!.regex) {
+      const patterns = entries.map(entry => new RegExp(entry));
+      return value => patterns.some(pattern => pattern.test(value));
+    }
+    const values = new Set(entries);
+    return value => values.has(value);
+  };
+  const included = include.length > 0 ? compile(include) : null;
+  const excluded = exclude.length > 0 ? compile(exclude) : null;
+  return value => (!included || included(value)) && !(excluded && excluded(value));
+};
+
+/** The message of the first invalid pattern in a regex value filter, if any. */
+export const valueFilterError = (filter: ValueFilter | undefined): string | null => {
+  try {
+    valueMatcher(filter);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/** Number of filter bar settings in effect, for the bar's summary. */
+export const countSampleFilters = (filter: SampleFilter): number =>
+  [filter.labels, filter.responseCodes, filter.threadGroups].filter(valueFilter =>
+    nonEmpty(valueFilter?.include).length + nonEmpty(valueFilter?.exclude).length > 0
+  ).length
+  + (filter.success !== undefined ? 1 : 0)
+  + (filter.minElapsed !== undefined || filter.maxElapsed !== undefined ? 1 : 0);
+
+/** Whether a filter narrows by anything besides injector, which the parse-time histograms cover. */
+export const narrowsBeyondSources = (filter: RecordFilter): boolean =>
+  filter.from !== undefined || filter.to !== undefined || countSampleFilters(filter) > 0;
+
+/** The filter narrowed to one transaction, in place of any transaction filter from the bar. */
+export const forTransaction = (filter: RecordFilter, label: string): RecordFilter => ({
+  ...filter,
+  labels: { include: [label] }
+});
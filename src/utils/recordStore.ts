@@ -0,0 +1,320 @@
+import type { JTLRecord } from './jtlParser';
+
+export type NumericField =
+  | 'timestamp'
+  | 'elapsed'
+  | 'latency'
+  | 'connect'
+  | 'idleTime'
+  | 'bytes'
+  | 'sentBytes'
+  | 'grpThreads'
+  | 'allThreads'
+  | 'sampleCount'
+  | 'errorCount';
+
+export type StringField =
+  | 'label'
+  | 'responseCode'
+  | 'threadName'
+  | 'responseMessage'
+  | 'failureMessage'
+  | 'url'
+  | 'encoding'
+  | 'hostname'
+  | 'parentLabel'
+  | 'source';
+
+const NUMERIC_FIELDS: NumericField[] = [
+  'timestamp', 'elapsed', 'latency', 'connect', 'idleTime', 'bytes', 'sentBytes', 'grpThreads', 'allThreads', 'sampleCount', 'errorCount'
+];
+
+const STRING_FIELDS: StringField[] = [
+  'label', 'responseCode', 'threadName', 'responseMessage', 'failureMessage', 'url', 'encoding', 'hostname', 'parentLabel', 'source'
+];
+
+export type NumericColumn = Float64Array | Int32Array;
+export type CodeColumn = Uint16Array | Uint32Array;
+
+/** Plain, structured-clone friendly copy of a store, trimmed to its size. */
+export interface RecordStoreSnapshot {
+  size: number;
+  numeric: Partial<Record<NumericField, NumericColumn>>;
+  strings: Partial<Record<StringField, { codes: CodeColumn; values: string[] }>>;
+  success: Uint8Array;
+}
+
+const INITIAL_CAPACITY = 1024;
+
+/**
+ * Dictionary-encoded string column. Code 0 is reserved for "no value", so
+ * optional fields decode back to `undefined`. Codes start out as 16-bit and
+ * are widened the first time the dictionary outgrows them.
+ */
+class DictionaryColumn {
+  codes: CodeColumn;
+  readonly values: string[] = [''];
+  private readonly lookup = new Map<string, number>([['', 0]]);
+
+  constructor(capacity: number) {
+    this.codes = new Uint16Array(capacity);
+  }
+
+  static restore(codes: CodeColumn, values: string[]): DictionaryColumn {
+    const column = new DictionaryColumn(0);
+    column.codes = codes;
+    for (let code = 1; code < values.length; code++) {
+      column.values.push(values[code]);
+      column.lookup.set(values[code], code);
+    }
+    return column;
+  }
+
+  encode(value: string | undefined): number {
+    if (!value) return 0;
+    let code = this.lookup.get(value);
+    if (code === undefined) {
+      code = this.values.length;
+      this.values.push(value);
+      this.lookup.set(value, code);
+      if (code > 0xffff && this.codes instanceof Uint16Array) {
+        this.codes = Uint32Array.from(this.codes);
+      }
+    }
+    return code;
+  }
+
+  reorder(order: Uint32Array): void {
+    const codes = this.codes instanceof Uint16Array ? new Uint16Array(this.codes.length) : new Uint32Array(this.codes.length);
+    for (let i = 0; i < order.length; i++) {
+      codes[i] = this.codes[order[i]];
+    }
+    this.codes = codes;
+  }
+
+  resize(capacity: number): void {
+    const codes = this.codes instanceof Uint16Array ? new Uint16Array(capacity) : new Uint32Array(capacity);
+    codes.set(this.codes.subarray(0, Math.min(capacity, this.codes.length)));
+    this.codes = codes;
+  }
+}
+
+/**
+ * Columnar storage for JTL samples. Numbers live in typed arrays and strings
+ * are dictionary-encoded, so labels and thread names repeated across millions
+ * of samples are stored once. Optional columns are only allocated once a
+ * record actually carries a value for them.
+ */
+export class RecordStore {
+  private length = 0;
+  private capacity = INITIAL_CAPACITY;
+  private numeric = new Map<NumericField, NumericColumn>();
+  private strings = new Map<StringField, DictionaryColumn>();
+  private successColumn = new Uint8Array(INITIAL_CAPACITY);
+  private minTs = Infinity;
+  private maxTs = -Infinity;
+  private ordered = true;
+
+  constructor() {
+    this.numeric.set('timestamp', new Float64Array(INITIAL_CAPACITY));
+    this.numeric.set('elapsed', new Int32Array(INITIAL_CAPACITY));
+    this.strings.set('label', new DictionaryColumn(INITIAL_CAPACITY));
+    this.strings.set('responseCode', new DictionaryColumn(INITIAL_CAPACITY));
+    this.strings.set('threadName', new DictionaryColumn(INITIAL_CAPACITY));
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  toSnapshot(): RecordStoreSnapshot {
+    const snapshot: RecordStoreSnapshot = {
+      size: this.length,
+      numeric: {},
+      strings: {},
+      success: this.successColumn.slice(0, this.length)
+    };
+    for (const [field, column] of this.numeric) {
+      snapshot.numeric[field] = column.slice(0, this.length);
+    }
+    for (const [field, column] of this.strings) {
+      snapshot.strings[field] = { codes: column.codes.slice(0, this.length), values: [...column.values] };
+    }
+    return snapshot;
+  }
+
+  static fromSnapshot(snapshot: RecordStoreSnapshot): RecordStore {
+    const store = new RecordStore();
+    // Columns are adopted as-is; the next append grows them like any full store
+    store.length = snapshot.size;
+    store.capacity = snapshot.size;
+    store.successColumn = snapshot.success;
+    store.numeric.clear();
+    store.strings.clear();
+    for (const [field, column] of Object.entries(snapshot.numeric) as [NumericField, NumericColumn][]) {
+      store.numeric.set(field, column);
+    }
+    for (const [field, { codes, values }] of Object.entries(snapshot.strings) as [StringField, { codes: CodeColumn; values: string[] }][]) {
+      store.strings.set(field, DictionaryColumn.restore(codes, values));
+    }
+
+    const timestamps = store.numeric.get('timestamp')!;
+    for (let i = 0; i < store.length; i++) {
+      const timestamp = timestamps[i];
+      if (timestamp < store.maxTs) store.ordered = false;
+      if (timestamp < store.minTs) store.minTs = timestamp;
+      if (timestamp > store.maxTs) store.maxTs = timestamp;
+    }
+    return store;
+  }
+
+  get minTimestamp(): number {
+    return this.length > 0 ? this.minTs : 0;
+  }
+
+  get maxTimestamp(): number {
+    return this.length > 0 ? this.maxTs : 0;
+  }
+
+  append(record: JTLRecord): void {
+    if (this.length === this.capacity) {
+      this.grow();
+    }
+    const index = this.length++;
+
+    for (const field of NUMERIC_FIELDS) {
+      const value = record[field];
+      if (value === undefined || value === null) continue;
+      this.numericColumn(field)[index] = value;
+    }
+
+    for (const field of STRING_FIELDS) {
+      const value = record[field];
+      let column = this.strings.get(field);
+      if (!column) {
+        if (!value) continue;
+        column = new DictionaryColumn(this.capacity);
+        this.strings.set(field, column);
+      }
+      // Encode first: a new dictionary entry may widen the codes array
+      const code = column.encode(value);
+      column.codes[index] = code;
+    }
+
+    this.successColumn[index] = record.success ? 1 : 0;
+
+    if (record.timestamp < this.maxTs) this.ordered = false;
+    if (record.timestamp < this.minTs) this.minTs = record.timestamp;
+    if (record.timestamp > this.maxTs) this.maxTs = record.timestamp;
+  }
+
+  /** Whether records are stored in timestamp order. */
+  get isSorted(): boolean {
+    return this.ordered;
+  }
+
+  /**
+   * Reorders every column by timestamp. Ties keep their insertion order, so
+   * records merged from several files stay grouped by file within the same
+   * millisecond.
+   */
+  sortByTimestamp(): void {
+    if (this.ordered) return;
+
+    const timestamps = this.numeric.get('timestamp')!;
+    const order = new Uint32Array(this.length);
+    for (let i = 0; i < this.length; i++) order[i] = i;
+    order.sort((a, b) => timestamps[a] - timestamps[b] || a - b);
+
+    for (const [field, column] of this.numeric) {
+      const sorted = column instanceof Float64Array ? new Float64Array(this.capacity) : new Int32Array(this.capacity);
+      for (let i = 0; i < this.length; i++) {
+        sorted[i] = column[order[i]];
+      }
+      this.numeric.set(field, sorted);
+    }
+    for (const column of this.strings.values()) {
+      column.reorder(order);
+    }
+
+    const success = new Uint8Array(this.capacity);
+    for (let i = 0; i < this.length; i++) {
+      success[i] = this.successColumn[order[i]];
+    }
+    this.successColumn = success;
+    this.ordered = true;
+  }
+
+  /** Typed-array view of a numeric column, or undefined if no record set it. */
+  column(field: NumericField): NumericColumn | undefined {
+    return this.numeric.get(field)?.subarray(0, this.length);
+  }
+
+  /** Dictionary codes of a string column, or undefined if no record set it. */
+  codes(field: StringField): CodeColumn | undefined {
+    return this.strings.get(field)?.codes.subarray(0, this.length);
+  }
+
+  /** Values indexed by code; index 0 is the empty value. */
+  dictionary(field: StringField): string[] {
+    return this.strings.get(field)?.values ?? [''];
+  }
+
+  successFlags(): Uint8Array {
+    return this.successColumn.subarray(0, this.length);
+  }
+
+  number(field: NumericField, index: number): number | undefined {
+    return this.numeric.get(field)?.[index];
+  }
+
+  string(field: StringField, index: number): string | undefined {
+    const column = this.strings.get(field);
+    if (!column) return undefined;
+    return column.values[column.codes[index]] || undefined;
+  }
+
+  /** Materializes a single record; meant for display, not aggregation. */
+  get(index: number): JTLRecord {
+    const record: Partial<JTLRecord> = { success: this.successColumn[index] === 1 };
+
+    for (const [field, column] of this.numeric) {
+      record[field] = column[index];
+    }
+    for (const [field, column] of this.strings) {
+      const value = column.values[column.codes[index]];
+      if (value) record[field] = value;
+    }
+
+    record.label = record.label ?? '';
+    record.responseCode = record.responseCode ?? '';
+    record.threadName = record.threadName ?? '';
+    return record as JTLRecord;
+  }
+
+  private numericColumn(field: NumericField): NumericColumn {
+    let column = this.numeric.get(field);
+    if (!column) {
+      column = new Int32Array(this.capacity);
+      this.numeric.set(field, column);
+    }
+    return column;
+  }
+
+  private grow(): void {
+    this.capacity = Math.max(INITIAL_CAPACITY, this.capacity * 2);
+
+    for (const [field, column] of this.numeric) {
+      const grown = column instanceof Float64Array ? new Float64Array(this.capacity) : new Int32Array(this.capacity);
+      grown.set(column);
+      this.numeric.set(field, grown);
+    }
+    for (const column of this.strings.values()) {
+      column.resize(this.capacity);
+    }
+
+    const success = new Uint8Array(this.capacity);
+    success.set(this.successColumn);
+    this.successColumn = success;
+  }
+}
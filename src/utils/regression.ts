@@ -0,0 +1,183 @@
+import type { JTLParser } from './jtlParser';
+import { bootstrapPercentileDelta, BootstrapInterval, downsample, kolmogorovSmirnov, mannWhitneyU, percentile } from './statistics';
+
+export type RegressionVerdict = 'regressed' | 'improved' | 'unchanged' | 'inconclusive';
+
+export type DistributionTest = 'mann-whitney' | 'kolmogorov-smirnov';
+
+export interface RegressionOptions {
+  test: DistributionTest;
+  /** Significance level for the distribution test */
+  alpha: number;
+  /** Smallest |Cliff's delta| worth reporting; 0.147 is the conventional "small" effect */
+  minEffectSize: number;
+  /** p95 changes within this fraction of the baseline p95 count as unchanged */
+  p95Tolerance: number;
+  /** Transactions with fewer samples in either run are inconclusive */
+  minSamples: number;
+  /** Samples per run fed to the tests; larger runs are evenly subsampled */
+  maxSamples: number;
+  bootstrapIterations: number;
+}
+
+export interface RegressionResult {
+  label: string;
+  verdict: RegressionVerdict;
+  baselineCount: number;
+  candidateCount: number;
+  pValue: number;
+  /** Cliff's delta; positive means the candidate tends to be slower */
+  effectSize: number;
+  /** Candidate p95 minus baseline p95, with its bootstrap confidence interval */
+  p95Delta: BootstrapInterval;
+  reason: string;
+}
+
+export const DEFAULT_REGRESSION_OPTIONS: RegressionOptions = {
+  test: 'mann-whitney',
+  alpha: 0.05,
+  minEffectSize: 0.147,
+  p95Tolerance: 0.1,
+  minSamples: 20,
+  maxSamples: 5000,
+  bootstrapIterations: 500
+};
+
+export const formatPValue = (pValue: number) => pValue < 0.001 ? 'p<0.001' : `p=${pValue.toFixed(3)}`;
+
+/** Label used for the verdict over every sample of both runs. */
+export const OVERALL_LABEL = 'All Transactions';
+
+/**
+ * Decides whether the candidate response times regressed against the
+ * baseline. A verdict needs either a significant distribution shift with a
+ * meaningful effect size, or a p95 confidence interval that sits entirely
+ * outside the tolerance band. Runs that show neither, but whose p95 interval
+ * is too wide to rule a change out, are inconclusive rather than unchanged.
+ */
+export const assessRegression = (
+  label: string,
+  baseline: ArrayLike<number>,
+  candidate: ArrayLike<number>,
+  options: RegressionOptions = DEFAULT_REGRESSION_OPTIONS
+): RegressionResult => {
+  const base = { label, baselineCount: baseline.length, candidateCount: candidate.length };
+
+  if (baseline.length < options.minSamples || candidate.length < options.minSamples) {
+    return {
+      ...base,
+      verdict: 'inconclusive',
+      pValue: 1,
+      effectSize: 0,
+      p95Delta: { estimate: 0, lower: 0, upper: 0 },
+      reason: `Fewer than ${options.minSamples} samples in one of the runs`
+    };
+  }
+
+  const a = downsample(baseline, options.maxSamples);
+  const b = downsample(candidate, options.maxSamples);
+
+  // Cliff's delta comes from the U statistic, whichever test decides significance
+  const mannWhitney = mannWhitneyU(a, b);
+  const pValue = options.test === 'kolmogorov-smirnov' ? kolmogorovSmirnov(a, b).pValue : mannWhitney.pValue;
+  const effectSize = mannWhitney.effectSize;
+  const p95Delta = bootstrapPercentileDelta(a, b, { percentile: 95, iterations: options.bootstrapIterations });
+
+  const tolerance = Math.max(1, percentile(a, 95) * options.p95Tolerance);
+
+  if (pValue < options.alpha && Math.abs(effectSize) >= options.minEffectSize) {
+    return {
+      ...base,
+      verdict: effectSize > 0 ? 'regressed' : 'improved',
+      pValue,
+      effectSize,
+      p95Delta,
+      reason: `Distribution shifted ${effectSize > 0 ? 'slower' : 'faster'} (${formatPValue(pValue)}, effect ${effectSize.toFixed(2)})`
+    };
+  }
+
+  if (p95Delta.lower > tolerance || p95Delta.upper < -tolerance) {
+    const slower = p95Delta.lower > tolerance;
+    return {
+      ...base,
+      verdict: slower ? 'regressed' : 'improved',
+      pValue,
+      effectSize,
+      p95Delta,
+      reason: `p95 ${slower ? 'rose' : 'fell'} beyond ±${tolerance.toFixed(0)}ms at 95% confidence`
+    };
+  }
+
+  if (p95Delta.lower >= -tolerance && p95Delta.upper <= tolerance) {
+    return {
+      ...base,
+      verdict: 'unchanged',
+      pValue,
+      effectSize,
+      p95Delta,
+      reason: `p95 change stays within ±${tolerance.toFixed(0)}ms at 95% confidence`
+    };
+  }
+
+  return {
+    ...base,
+    verdict: 'inconclusive',
+    pValue,
+    effectSize,
+    p95Delta,
+    reason: 'No significant shift, but the p95 interval is too wide to rule one out'
+  };
+};
+
+/** Response times of one transaction in both runs, or of every sample under `OVERALL_LABEL`. */
+export interface RegressionSamples {
+  label: string;
+  baseline: ArrayLike<number>;
+  candidate: ArrayLike<number>;
+}
+
+/**
+ * Response times of the run as a whole, followed by those of every
+ * transaction present in both runs.
+ */
+export const collectRegressionSamples = (baseline: JTLParser, candidate: JTLParser): RegressionSamples[] => {
+  const baselineSamples = baseline.getElapsedByLabel();
+  const candidateSamples = candidate.getElapsedByLabel();
+
+  const samples: RegressionSamples[] = [
+    { label: OVERALL_LABEL, baseline: baseline.getStore().column('elapsed')!, candidate: candidate.getStore().column('elapsed')! }
+  ];
+  for (const [label, after] of candidateSamples) {
+    const before = baselineSamples.get(label);
+    if (before) samples.push({ label, baseline: before, candidate: after });
+  }
+  return samples;
+};
+
+export const assessSamples = (
+  samples: RegressionSamples[],
+  options: RegressionOptions = DEFAULT_REGRESSION_OPTIONS
+): RegressionResult[] =>
+  samples.map(({ label, baseline, candidate }) => assessRegression(label, baseline, candidate, options));
+
+/**
+ * Verdicts for every transaction present in both runs, preceded by one for
+ * the run as a whole. The bootstrap makes this slow for runs with many
+ * transactions; the app runs it through `compareDistributionsInWorker`.
+ */
+export const compareDistributions = (
+  baseline: JTLParser,
+  candidate: JTLParser,
+  options: RegressionOptions = DEFAULT_REGRESSION_OPTIONS
+): RegressionResult[] => assessSamples(collectRegressionSamples(baseline, candidate), options);
+
+/**
+ * Process exit code for headless runs: 1 when any transaction regressed,
+ * or when any is inconclusive and `failOnInconclusive` is set; 0 otherwise.
+ */
+export const regressionExitCode = (results: RegressionResult[], failOnInconclusive = false): number => {
+  const failed = results.some(result =>
+    result.verdict === 'regressed' || (failOnInconclusive && result.verdict === 'inconclusive')
+  );
+  return failed ? 1 : 0;
+};
@@ -0,0 +1,61 @@
+import type { JTLParser } from './jtlParser';
+import { RegressionOptions, RegressionResult, RegressionSamples, collectRegressionSamples } from './regression';
+
+export type RegressionWorkerRequest = { type: 'assess'; samples: RegressionSamples[]; options: RegressionOptions };
+
+export type RegressionWorkerResponse =
+  | { type: 'done'; results: RegressionResult[] }
+  | { type: 'error'; message: string };
+
+export class RegressionCancelledError extends Error {
+  constructor() {
+    super('Regression verdicts were cancelled');
+    this.name = 'RegressionCancelledError';
+  }
+}
+
+/**
+ * Runs `compareDistributions` in a Web Worker, so the distribution tests and
+ * the bootstrap never block the main thread. The samples are collected here
+ * and copied into the worker; aborting the signal terminates it.
+ */
+export const compareDistributionsInWorker = (
+  baseline: JTLParser,
+  candidate: JTLParser,
+  options: RegressionOptions,
+  signal?: AbortSignal
+) =>
+  new Promise<RegressionResult[]>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RegressionCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/regression.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new RegressionCancelledError());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<RegressionWorkerResponse>) => {
+      const message = event.data;
+      cleanup();
+      if (message.type === 'done') resolve(message.results);
+      else reject(new Error(message.message));
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Worker failed while computing regression verdicts'));
+    };
+
+    worker.postMessage({ type: 'assess', samples: collectRegressionSamples(baseline, candidate), options } satisfies RegressionWorkerRequest);
+  });
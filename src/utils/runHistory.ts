@@ -0,0 +1,176 @@
+import type { RunSummary } from './jtlParser';
+import type { RecordStoreSnapshot } from './recordStore';
+
+export interface RunMetadata {
+  name: string;
+  /** When the test ran, as epoch milliseconds */
+  date: number;
+  /** CI build or version the run tested, used as the trend x-axis */
+  buildNumber?: string;
+  tags: string[];
+  environment: string;
+  notes: string;
+}
+
+export interface StoredRun extends RunMetadata {
+  id: string;
+  savedAt: number;
+  /** Whether the raw samples were kept alongside the summary */
+  hasRecords: boolean;
+  summary: RunSummary;
+}
+
+interface StoredRecords {
+  id: string;
+  snapshot: RecordStoreSnapshot;
+}
+
+const DB_NAME = 'jmeter-analyzer';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+const RECORDS_STORE = 'records';
+const KEEP_RECORDS_KEY = 'historyKeepRecords';
+
+/**
+ * Runs with more samples than this are saved as a summary only. A typical
+ * sample takes about 60 bytes across its columns, so a million of them make
+ * a snapshot of some 60 MB: copied once in memory while saving, and small
+ * enough to leave room in the storage a browser grants a site for other runs.
+ */
+export const MAX_KEPT_RECORDS = 1_000_000;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        }
+        // Raw samples live in their own store so listing runs never loads them
+        if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+          db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/** Newest runs first. */
+export const listRuns = async (): Promise<StoredRun[]> => {
+  const db = await openDatabase();
+  const runs = await promisify<StoredRun[]>(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).getAll());
+  return runs.sort((a, b) => b.date - a.date);
+};
+
+export const getRun = async (id: string): Promise<StoredRun | undefined> => {
+  const db = await openDatabase();
+  return promisify<StoredRun | undefined>(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).get(id));
+};
+
+export const getRunRecords = async (id: string): Promise<RecordStoreSnapshot | undefined> => {
+  const db = await openDatabase();
+  const stored = await promisify<StoredRecords | undefined>(db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).get(id));
+  return stored?.snapshot;
+};
+
+/**
+ * Saves a run's summary, then its raw samples in a separate transaction so
+ * running out of storage for the samples never loses the summary. The
+ * returned run says whether the samples were kept.
+ */
+export const saveRun = async (
+  metadata: RunMetadata,
+  summary: RunSummary,
+  snapshot?: RecordStoreSnapshot
+): Promise<StoredRun> => {
+  const run: StoredRun = {
+    ...metadata,
+    id: crypto.randomUUID(),
+    savedAt: Date.now(),
+    hasRecords: false,
+    summary
+  };
+
+  const db = await openDatabase();
+  const summaryTransaction = db.transaction(RUNS_STORE, 'readwrite');
+  summaryTransaction.objectStore(RUNS_STORE).put(run);
+  await completion(summaryTransaction);
+  if (!snapshot) return run;
+
+  try {
+    const withRecords = { ...run, hasRecords: true };
+    const recordsTransaction = db.transaction([RUNS_STORE, RECORDS_STORE], 'readwrite');
+    recordsTransaction.objectStore(RECORDS_STORE).put({ id: run.id, snapshot } satisfies StoredRecords);
+    recordsTransaction.objectStore(RUNS_STORE).put(withRecords);
+    await completion(recordsTransaction);
+    return withRecords;
+  } catch (error) {
+    console.error('Error saving raw samples of run:', error);
+    return run;
+  }
+};
+
+/** A run saved earlier from the same results, recognized by name, start time and sample count. */
+export const findSavedRun = async (name: string, summary: RunSummary): Promise<StoredRun | undefined> => {
+  const runs = await listRuns();
+  return runs.find(run =>
+    run.name === name && run.summary.startTime === summary.startTime && run.summary.recordCount === summary.recordCount
+  );
+};
+
+export const updateRun = async (id: string, metadata: Partial<RunMetadata>): Promise<StoredRun | undefined> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RUNS_STORE, 'readwrite');
+  const store = transaction.objectStore(RUNS_STORE);
+  const run = await promisify<StoredRun | undefined>(store.get(id));
+  if (!run) return undefined;
+
+  const updated = { ...run, ...metadata };
+  store.put(updated);
+  await completion(transaction);
+  return updated;
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([RUNS_STORE, RECORDS_STORE], 'readwrite');
+  transaction.objectStore(RUNS_STORE).delete(id);
+  transaction.objectStore(RECORDS_STORE).delete(id);
+  await completion(transaction);
+};
+
+/** Whether new runs keep their raw samples; off by default. */
+export const loadKeepRecords = (): boolean => localStorage.getItem(KEEP_RECORDS_KEY) === 'true';
+
+export const saveKeepRecords = (keep: boolean) => {
+  localStorage.setItem(KEEP_RECORDS_KEY, String(keep));
+};
+
+export const matchesSearch = (run: StoredRun, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [run.name, run.buildNumber ?? '', run.environment, run.notes, ...run.tags].some(value => value.toLowerCase().includes(needle));
+};
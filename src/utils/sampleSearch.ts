@@ -0,0 +1,270 @@
+import type { NumericField, RecordStore, StringField } from './recordStore';
+
+export type SearchField = NumericField | StringField | 'success';
+
+export type SearchOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~';
+
+/** Parsed sample search, evaluated per row by `compileSampleSearch`. */
+export type SampleSearch =
+  | { type: 'and' | 'or'; left: SampleSearch; right: SampleSearch }
+  | { type: 'not'; operand: SampleSearch }
+  | { type: 'compare'; field: SearchField; operator: SearchOperator; value: string }
+  | { type: 'success' };
+
+const NUMERIC_SEARCH_FIELDS: NumericField[] = [
+  'timestamp', 'elapsed', 'latency', 'connect', 'idleTime', 'bytes', 'sentBytes', 'grpThreads', 'allThreads', 'sampleCount', 'errorCount'
+];
+
+const STRING_SEARCH_FIELDS: StringField[] = [
+  'label', 'responseCode', 'threadName', 'responseMessage', 'failureMessage', 'url', 'encoding', 'hostname', 'parentLabel', 'source'
+];
+
+/** Shorter names accepted in searches, on top of the record field names. */
+const FIELD_ALIASES: Record<string, SearchField> = {
+  code: 'responseCode',
+  message: 'responseMessage',
+  error: 'failureMessage',
+  thread: 'threadName',
+  threads: 'allThreads',
+  time: 'timestamp',
+  idle: 'idleTime',
+  sent: 'sentBytes'
+};
+
+const FIELDS_BY_NAME = new Map<string, SearchField>([
+  ...[...NUMERIC_SEARCH_FIELDS, ...STRING_SEARCH_FIELDS, 'success' as const].map(field => [field.toLowerCase(), field] as const),
+  ...Object.entries(FIELD_ALIASES)
+]);
+
+const OPERATORS: SearchOperator[] = ['>=', '<=', '!=', '!~', '=', '>', '<', '~'];
+
+type Token =
+  | { kind: 'word' | 'string'; text: string; position: number }
+  | { kind: 'operator'; text: SearchOperator; position: number }
+  | { kind: '(' | ')' | '!' | 'and' | 'or' | 'end'; position: number };
+
+const isWordChar = (char: string) => /[\w.:/-]/.test(char);
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const char = text[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char, position: position++ });
+    } else if (text.startsWith('&&', position) || text.startsWith('||', position)) {
+      tokens.push({ kind: char === '&' ? 'and' : 'or', position });
+      position += 2;
+    } else if (char === '"' || char === "'") {
+      // Only the quote itself and backslashes are escaped, so regular expressions keep their backslashes
+      const start = position++;
+      let value = '';
+      while (position < text.length && text[position] !== char) {
+        const escaped = text[position] === '\\' && (text[position + 1] === char || text[position + 1] === '\\');
+        if (escaped) position++;
+        value += text[position++];
+      }
+      if (position >= text.length) throw new Error(`Unterminated string starting at position ${start + 1}`);
+      position++;
+      tokens.push({ kind: 'string', text: value, position: start });
+    } else if (text.startsWith('==', position)) {
+      tokens.push({ kind: 'operator', text: '=', position });
+      position += 2;
+    } else {
+      const operator = OPERATORS.find(candidate => text.startsWith(candidate, position));
+      if (operator) {
+        tokens.push({ kind: 'operator', text: operator, position });
+        position += operator.length;
+      } else if (char === '!') {
+        tokens.push({ kind: '!', position: position++ });
+      } else if (isWordChar(char)) {
+        const start = position;
+        while (position < text.length && isWordChar(text[position])) position++;
+        const word = text.slice(start, position);
+        const keyword = word.toLowerCase();
+        if (keyword === 'and' || keyword === 'or') tokens.push({ kind: keyword, position: start });
+        else if (keyword === 'not') tokens.push({ kind: '!', position: start });
+        else tokens.push({ kind: 'word', text: word, position: start });
+      } else {
+        throw new Error(`Unexpected "${char}" at position ${position + 1}`);
+      }
+    }
+  }
+  tokens.push({ kind: 'end', position: text.length });
+  return tokens;
+};
+
+const isNumericField = (field: SearchField): field is NumericField =>
+  (NUMERIC_SEARCH_FIELDS as string[]).includes(field);
+
+/**
+ * Parses a sample search such as `label~"login" and elapsed>2000 and !success`.
+ * Conditions compare a field with a value using =, !=, >, >=, <, <=, ~ (matches
+ * a regular expression anywhere in the value, ignoring case) or !~, and combine
+ * with and, or, not or ! and parentheses; `and` binds tighter than `or`.
+ * `success` stands on its own. Returns null for an empty search and throws on a malformed one.
+ */
+export const parseSampleSearch = (text: string): SampleSearch | null => {
+  const tokens = tokenize(text);
+  if (tokens.length === 1) return null;
+  let index = 0;
+  const peek = () => tokens[index];
+  const describe = (token: Token) => (token.kind === 'end' ? 'end of search' : `position ${token.position + 1}`);
+
+  const parseOr = (): SampleSearch => {
+    let left = parseAnd();
+    while (peek().kind === 'or') {
+      index++;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): SampleSearch => {
+    let left = parseUnary();
+    while (peek().kind === 'and') {
+      index++;
+      left = { type: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): SampleSearch => {
+    const token = tokens[index++];
+    if (token.kind === '!') return { type: 'not', operand: parseUnary() };
+    if (token.kind === '(') {
+      const inner = parseOr();
+      if (tokens[index++].kind !== ')') throw new Error(`Expected ")" at ${describe(tokens[index - 1])}`);
+      return inner;
+    }
+    if (token.kind !== 'word') throw new Error(`Expected a field name at ${describe(token)}`);
+
+    const field = FIELDS_BY_NAME.get(token.text.toLowerCase());
+    if (!field) throw new Error(`Unknown field "${token.text}"`);
+    const operator = peek();
+    if (operator.kind !== 'operator') {
+      if (field === 'success') return { type: 'success' };
+      throw new Error(`Expected a comparison after "${token.text}"`);
+    }
+    index++;
+    const value = tokens[index++];
+    if (value.kind !== 'word' && value.kind !== 'string') throw new Error(`Expected a value at ${describe(value)}`);
+
+    if (field === 'success') {
+      const flag = value.text.toLowerCase();
+      if ((operator.text !== '=' && operator.text !== '!=') || (flag !== 'true' && flag !== 'false')) {
+        throw new Error('success can only be compared with = or != to true or false');
+      }
+      const success: SampleSearch = { type: 'success' };
+      return (flag === 'true') === (operator.text === '=') ? success : { type: 'not', operand: success };
+    }
+    if (isNumericField(field)) {
+      if (operator.text === '~' || operator.text === '!~') throw new Error(`${field} is a number and cannot be matched with ${operator.text}`);
+      if (value.text.trim() === '' || !Number.isFinite(Number(value.text))) throw new Error(`${field} must be compared with a number`);
+    }
+    // Invalid patterns are reported here rather than when the search runs
+    if (operator.text === '~' || operator.text === '!~') new RegExp(value.text, 'i');
+    return { type: 'compare', field, operator: operator.text, value: value.text };
+  };
+
+  const search = parseOr();
+  if (peek().kind !== 'end') throw new Error(`Unexpected input at ${describe(peek())}`);
+  return search;
+};
+
+const compareNumbers = (operator: SearchOperator, value: number, target: number) => {
+  switch (operator) {
+    case '=': return value === target;
+    case '!=': return value !== target;
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    default: return value <= target;
+  }
+};
+
+/** Whether a string value passes a condition; ordering compares as numbers, so `code>=500` works. */
+const stringTest = (operator: SearchOperator, target: string): ((value: string) => boolean) => {
+  switch (operator) {
+    case '=': return value => value === target;
+    case '!=': return value => value !== target;
+    case '~':
+    case '!~': {
+      const pattern = new RegExp(target, 'i');
+      return operator === '~' ? value => pattern.test(value) : value => !pattern.test(value);
+    }
+    default: {
+      const number = Number(target);
+      return value => value.trim() !== '' && compareNumbers(operator, Number(value), number);
+    }
+  }
+};
+
+/**
+ * Turns a parsed search into a test of a store row. String conditions are
+ * decided once per dictionary entry, so evaluating millions of rows only
+ * looks up codes. Fields the run does not have read as 0 or empty.
+ */
+export const compileSampleSearch = (search: SampleSearch, store: RecordStore): ((row: number) => boolean) => {
+  switch (search.type) {
+    case 'and': {
+      const left = compileSampleSearch(search.left, store);
+      const right = compileSampleSearch(search.right, store);
+      return row => left(row) && right(row);
+    }
+    case 'or': {
+      const left = compileSampleSearch(search.left, store);
+      const right = compileSampleSearch(search.right, store);
+      return row => left(row) || right(row);
+    }
+    case 'not': {
+      const operand = compileSampleSearch(search.operand, store);
+      return row => !operand(row);
+    }
+    case 'success': {
+      const success = store.successFlags();
+      return row => success[row] === 1;
+    }
+    case 'compare': {
+      const { field, operator, value } = search;
+      if (isNumericField(field)) {
+        const column = store.column(field);
+        const target = Number(value);
+        if (!column) {
+          const matches = compareNumbers(operator, 0, target);
+          return () => matches;
+        }
+        return row => compareNumbers(operator, column[row], target);
+      }
+      const test = stringTest(operator, value);
+      const matches = Uint8Array.from(store.dictionary(field as StringField), entry => (test(entry) ? 1 : 0));
+      const codes = store.codes(field as StringField);
+      return codes ? row => matches[codes[row]] === 1 : () => matches[0] === 1;
+    }
+  }
+};
+
+/**
+ * Sort key of each row for a field. Strings are ranked by their place in the
+ * sorted dictionary, with numbers inside them compared as numbers.
+ */
+export const sampleSortKey = (store: RecordStore, field: SearchField): ((row: number) => number) => {
+  if (field === 'success') {
+    const success = store.successFlags();
+    return row => success[row];
+  }
+  if (isNumericField(field)) {
+    const column = store.column(field);
+    return column ? row => column[row] : () => 0;
+  }
+  const values = store.dictionary(field);
+  const ranks = new Uint32Array(values.length);
+  values
+    .map((_, code) => code)
+    .sort((a, b) => values[a].localeCompare(values[b], undefined, { numeric: true }))
+    .forEach((code, rank) => { ranks[code] = rank; });
+  const codes = store.codes(field);
+  return codes ? row => ranks[codes[row]] : () => 0;
+};
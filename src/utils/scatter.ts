@@ -0,0 +1,9 @@
+/** Points drawn before the scatter plot starts downsampling. */
+export const MAX_SCATTER_POINTS = 100_000;
+
+/**
+ * JMeter names threads "<thread group> <group number>-<thread number>", so
+ * the group is the name without that suffix. Names that do not follow the
+ * pattern are their own group.
+ */
+export const threadGroupOf = (threadName: string) => threadName.replace(/\s+\d+-\d+$/, '') || threadName;
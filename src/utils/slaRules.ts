@@ -0,0 +1,182 @@
+import type { PerformanceMetrics, TransactionSummary } from './jtlParser';
+
+export type SlaMetric = 'avgResponseTime' | 'p90ResponseTime' | 'p95ResponseTime' | 'p99ResponseTime' | 'throughput' | 'errorRate';
+
+export type SlaOperator = '<' | '<=' | '>' | '>=';
+
+/** Global rules judge the run as a whole; transaction rules every label matching a pattern */
+export type SlaScope = 'global' | 'transaction';
+
+export interface SlaRule {
+  id: string;
+  scope: SlaScope;
+  /** Regular expression matched against transaction labels, for transaction rules */
+  labelPattern?: string;
+  metric: SlaMetric;
+  operator: SlaOperator;
+  threshold: number;
+}
+
+export type SlaStatus = 'pass' | 'fail' | 'no-data';
+
+export interface SlaCheck {
+  label: string;
+  value: number;
+  passed: boolean;
+}
+
+export interface SlaResult {
+  rule: SlaRule;
+  status: SlaStatus;
+  /** One check per matching transaction, or a single one for global rules */
+  checks: SlaCheck[];
+  detail: string;
+}
+
+export const SLA_METRICS: Record<SlaMetric, { label: string; short: string; unit: string }> = {
+  avgResponseTime: { label: 'Average response time', short: 'avg', unit: 'ms' },
+  p90ResponseTime: { label: '90th percentile', short: 'p90', unit: 'ms' },
+  p95ResponseTime: { label: '95th percentile', short: 'p95', unit: 'ms' },
+  p99ResponseTime: { label: '99th percentile', short: 'p99', unit: 'ms' },
+  throughput: { label: 'Throughput', short: 'throughput', unit: '/s' },
+  errorRate: { label: 'Error rate', short: 'error rate', unit: '%' }
+};
+
+export const SLA_OPERATORS: SlaOperator[] = ['<', '<=', '>', '>='];
+
+const STORAGE_KEY = 'slaRules';
+
+const compare = (value: number, operator: SlaOperator, threshold: number) => {
+  switch (operator) {
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+  }
+};
+
+export const formatSlaValue = (metric: SlaMetric, value: number) => {
+  const { unit } = SLA_METRICS[metric];
+  return unit === 'ms' ? `${value.toFixed(0)} ms` : `${Number(value.toFixed(2))}${unit}`;
+};
+
+/** Human readable form, e.g. "p95 of /^Checkout/ < 800 ms". */
+export const describeSlaRule = (rule: SlaRule) => {
+  const subject = rule.scope === 'global'
+    ? `overall ${SLA_METRICS[rule.metric].short}`
+    : `${SLA_METRICS[rule.metric].short} of /${rule.labelPattern ?? ''}/`;
+  return `${subject} ${rule.operator} ${formatSlaValue(rule.metric, rule.threshold)}`;
+};
+
+/** Returns the compiled label pattern, or null when it is not a valid regular expression. */
+export const compileLabelPattern = (pattern: string | undefined): RegExp | null => {
+  try {
+    return new RegExp(pattern ?? '');
+  } catch {
+    return null;
+  }
+};
+
+export const evaluateSlaRule = (
+  rule: SlaRule,
+  metrics: PerformanceMetrics,
+  transactions: TransactionSummary[]
+): SlaResult => {
+  if (rule.scope === 'global') {
+    const value = metrics[rule.metric];
+    const passed = compare(value, rule.operator, rule.threshold);
+    return {
+      rule,
+      status: passed ? 'pass' : 'fail',
+      checks: [{ label: 'All Transactions', value, passed }],
+      detail: `Measured ${formatSlaValue(rule.metric, value)}`
+    };
+  }
+
+  const pattern = compileLabelPattern(rule.labelPattern);
+  if (!pattern) {
+    return { rule, status: 'no-data', checks: [], detail: `Invalid pattern /${rule.labelPattern}/` };
+  }
+
+  const checks = transactions
+    .filter(transaction => pattern.test(transaction.label))
+    .map(transaction => {
+      const value = transaction[rule.metric];
+      return { label: transaction.label, value, passed: compare(value, rule.operator, rule.threshold) };
+    });
+
+  if (checks.length === 0) {
+    return { rule, status: 'no-data', checks, detail: 'No transaction matches the pattern' };
+  }
+
+  const failures = checks.filter(check => !check.passed);
+  return {
+    rule,
+    status: failures.length === 0 ? 'pass' : 'fail',
+    checks,
+    detail: failures.length === 0
+      ? `All ${checks.length} matching transaction${checks.length === 1 ? '' : 's'} passed`
+      : `${failures.length} of ${checks.length} matching transactions failed: ${failures.map(check => check.label).join(', ')}`
+  };
+};
+
+export const evaluateSlaRules = (
+  rules: SlaRule[],
+  metrics: PerformanceMetrics,
+  transactions: TransactionSummary[]
+): SlaResult[] => rules.map(rule => evaluateSlaRule(rule, metrics, transactions));
+
+/** A run passes when no rule fails; rules without data do not count against it. */
+export const slaPassed = (results: SlaResult[]) => results.every(result => result.status !== 'fail');
+
+export const createSlaRule = (): SlaRule => ({
+  id: crypto.randomUUID(),
+  scope: 'global',
+  metric: 'p95ResponseTime',
+  operator: '<',
+  threshold: 1000
+});
+
+/**
+ * Parses rules from exported JSON, throwing with a readable message when the
+ * content is not a list of valid rules.
+ */
+export const parseSlaRules = (json: string): SlaRule[] => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a JSON array of rules');
+  }
+  return parsed.map((rule, index) => {
+    const valid = rule
+      && (rule.scope === 'global' || rule.scope === 'transaction')
+      && rule.metric in SLA_METRICS
+      && SLA_OPERATORS.includes(rule.operator)
+      && typeof rule.threshold === 'number';
+    if (!valid) {
+      throw new Error(`Rule ${index + 1} is missing a scope, metric, operator or numeric threshold`);
+    }
+    return {
+      id: typeof rule.id === 'string' ? rule.id : crypto.randomUUID(),
+      scope: rule.scope,
+      labelPattern: rule.scope === 'transaction' ? String(rule.labelPattern ?? '') : undefined,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.threshold
+    };
+  });
+};
+
+export const loadSlaRules = (): SlaRule[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return parseSlaRules(saved);
+  } catch (error) {
+    console.error('Error loading SLA rules:', error);
+    return [];
+  }
+};
+
+export const saveSlaRules = (rules: SlaRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules, null, 2));
+};
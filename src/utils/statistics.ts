@@ -0,0 +1,221 @@
+/**
+ * Non-parametric statistics for comparing response time distributions.
+ * Response times are heavily skewed and often multi-modal, so everything
+ * here works on ranks or resamples rather than assuming normality.
+ */
+
+export interface MannWhitneyResult {
+  u: number;
+  z: number;
+  pValue: number;
+  /**
+   * Cliff's delta: P(b > a) - P(b < a), from -1 to 1. Positive when the
+   * second sample tends to be larger.
+   */
+  effectSize: number;
+}
+
+export interface KolmogorovSmirnovResult {
+  d: number;
+  pValue: number;
+}
+
+export interface BootstrapInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Upper tail of the standard normal, P(Z > z), using the Abramowitz and
+ * Stegun 7.1.26 approximation of erfc. Computed directly rather than as
+ * 1 - CDF so tiny p-values do not round to zero.
+ */
+export const normalTail = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erfc = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? erfc / 2 : 1 - erfc / 2;
+};
+
+/** Small, fast seeded PRNG (mulberry32) so bootstrap results are reproducible. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Evenly strided subsample, capped at `max` values. Samples are stored in
+ * timestamp order, so striding keeps coverage of the whole run.
+ */
+export const downsample = (values: ArrayLike<number>, max: number): Float64Array => {
+  if (values.length <= max) return Float64Array.from(values);
+  const result = new Float64Array(max);
+  for (let i = 0; i < max; i++) {
+    result[i] = values[Math.floor((i * values.length) / max)];
+  }
+  return result;
+};
+
+/** Two-sided Mann-Whitney U test with tie correction and the normal approximation. */
+export const mannWhitneyU = (a: ArrayLike<number>, b: ArrayLike<number>): MannWhitneyResult => {
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  if (n1 === 0 || n2 === 0) return { u: 0, z: 0, pValue: 1, effectSize: 0 };
+
+  // Sort indices of the combined sample; indices >= n1 belong to b
+  const values = new Float64Array(n);
+  for (let i = 0; i < n1; i++) values[i] = a[i];
+  for (let i = 0; i < n2; i++) values[n1 + i] = b[i];
+  const order = new Uint32Array(n);
+  for (let i = 0; i < n; i++) order[i] = i;
+  order.sort((x, y) => values[x] - values[y]);
+
+  let rankSumB = 0;
+  let tieTerm = 0;
+  for (let start = 0; start < n;) {
+    let end = start + 1;
+    while (end < n && values[order[end]] === values[order[start]]) end++;
+    const ties = end - start;
+    const averageRank = (start + end + 1) / 2;
+    for (let k = start; k < end; k++) {
+      if (order[k] >= n1) rankSumB += averageRank;
+    }
+    tieTerm += ties * ties * ties - ties;
+    start = end;
+  }
+
+  const u = rankSumB - (n2 * (n2 + 1)) / 2;
+  const mean = (n1 * n2) / 2;
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  const effectSize = (2 * u) / (n1 * n2) - 1;
+
+  if (variance <= 0) return { u, z: 0, pValue: 1, effectSize };
+
+  // Continuity correction towards the mean
+  const diff = u - mean;
+  const z = (diff - 0.5 * Math.sign(diff)) / Math.sqrt(variance);
+  const pValue = Math.min(1, 2 * normalTail(Math.abs(z)));
+  return { u, z, pValue, effectSize };
+};
+
+/** Two-sample Kolmogorov-Smirnov test with the asymptotic p-value. */
+export const kolmogorovSmirnov = (a: ArrayLike<number>, b: ArrayLike<number>): KolmogorovSmirnovResult => {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) return { d: 0, pValue: 1 };
+
+  const sortedA = Float64Array.from(a).sort();
+  const sortedB = Float64Array.from(b).sort();
+  let i = 0;
+  let j = 0;
+  let d = 0;
+  while (i < n1 && j < n2) {
+    const value = Math.min(sortedA[i], sortedB[j]);
+    while (i < n1 && sortedA[i] === value) i++;
+    while (j < n2 && sortedB[j] === value) j++;
+    d = Math.max(d, Math.abs(i / n1 - j / n2));
+  }
+
+  const en = Math.sqrt((n1 * n2) / (n1 + n2));
+  const lambda = (en + 0.12 + 0.11 / en) * d;
+  // Kolmogorov distribution tail, Q(λ) = 2 Σ (-1)^(j-1) exp(-2 j² λ²)
+  let sum = 0;
+  let sign = 1;
+  for (let k = 1; k <= 100; k++) {
+    const term = sign * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-10) break;
+    sign = -sign;
+  }
+  const pValue = lambda < 1e-3 ? 1 : Math.min(1, Math.max(0, 2 * sum));
+  return { d, pValue };
+};
+
+/** In-place quickselect; returns the k-th smallest value. */
+const select = (values: Float64Array, k: number): number => {
+  let left = 0;
+  let right = values.length - 1;
+  while (left < right) {
+    const pivot = values[(left + right) >> 1];
+    let i = left;
+    let j = right;
+    while (i <= j) {
+      while (values[i] < pivot) i++;
+      while (values[j] > pivot) j--;
+      if (i <= j) {
+        const swap = values[i];
+        values[i] = values[j];
+        values[j] = swap;
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) right = j;
+    else if (k >= i) left = i;
+    else break;
+  }
+  return values[k];
+};
+
+/**
+ * Percentile at rank (n - 1) * p / 100, interpolated linearly between the two
+ * closest ranks. After selecting the lower rank everything to its right is at
+ * least as large, so the next rank is the smallest of those.
+ */
+const percentileOf = (values: Float64Array, percentile: number): number => {
+  const rank = (Math.max(0, Math.min(100, percentile)) / 100) * (values.length - 1);
+  const lower = Math.floor(rank);
+  const value = select(values, lower);
+  const fraction = rank - lower;
+  if (fraction === 0) return value;
+
+  let next = Infinity;
+  for (let i = lower + 1; i < values.length; i++) {
+    if (values[i] < next) next = values[i];
+  }
+  return value + fraction * (next - value);
+};
+
+/** Interpolated percentile of an unsorted sample, leaving the input untouched. */
+export const percentile = (values: ArrayLike<number>, p: number): number =>
+  values.length > 0 ? percentileOf(Float64Array.from(values), p) : 0;
+
+/**
+ * Percentile bootstrap confidence interval for the difference in a
+ * percentile between two samples (b minus a).
+ */
+export const bootstrapPercentileDelta = (
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  { percentile = 95, iterations = 500, confidence = 0.95, seed = 1 } = {}
+): BootstrapInterval => {
+  if (a.length === 0 || b.length === 0) return { estimate: 0, lower: 0, upper: 0 };
+
+  const random = createRandom(seed);
+  const estimate = percentileOf(Float64Array.from(b), percentile) - percentileOf(Float64Array.from(a), percentile);
+  const resampleA = new Float64Array(a.length);
+  const resampleB = new Float64Array(b.length);
+  const deltas = new Float64Array(iterations);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let i = 0; i < a.length; i++) resampleA[i] = a[Math.floor(random() * a.length)];
+    for (let i = 0; i < b.length; i++) resampleB[i] = b[Math.floor(random() * b.length)];
+    deltas[iteration] = percentileOf(resampleB, percentile) - percentileOf(resampleA, percentile);
+  }
+
+  deltas.sort();
+  const tail = (1 - confidence) / 2;
+  return {
+    estimate,
+    lower: deltas[Math.floor(tail * (iterations - 1))],
+    upper: deltas[Math.ceil((1 - tail) * (iterations - 1))]
+  };
+};
@@ -0,0 +1,119 @@
+import type { ChartDataPoint } from './jtlParser';
+import { formatRunOffset } from './timeWindow';
+
+/** A stretch of the run in epoch milliseconds, as [from, to). */
+export interface PhaseSpan {
+  from: number;
+  to: number;
+}
+
+export interface RunPhases {
+  /** Missing when the run was at full load from its first bucket */
+  rampUp?: PhaseSpan;
+  steady: PhaseSpan;
+  /** Missing when the run stopped at full load */
+  rampDown?: PhaseSpan;
+  /** What the boundaries were found from */
+  basis: 'threads' | 'throughput' | 'threads and throughput';
+}
+
+/** Share of the peak thread count that counts as full load. */
+const THREAD_LEVEL = 0.95;
+/** Share of the plateau throughput that counts as stable. */
+const THROUGHPUT_LEVEL = 0.9;
+/** Buckets on each side of the rolling median that smooths throughput. */
+const SMOOTHING_RADIUS = 2;
+/** A shorter steady state than this many buckets is not reported. */
+const MIN_STEADY_BUCKETS = 3;
+
+/** First and last index whose value reaches the threshold, or null if none does. */
+const rangeAtOrAbove = (values: number[], threshold: number): [number, number] | null => {
+  const first = values.findIndex(value => value >= threshold);
+  if (first < 0) return null;
+  let last = values.length - 1;
+  while (values[last] < threshold) last--;
+  return [first, last];
+};
+
+const rollingMedian = (values: number[], radius: number): number[] =>
+  values.map((_, index) => {
+    const window = values.slice(Math.max(0, index - radius), index + radius + 1).sort((a, b) => a - b);
+    return window[Math.floor(window.length / 2)];
+  });
+
+/**
+ * Splits a run into ramp-up, steady state and ramp-down from its time
+ * series. With thread counts, full load is where at least 95% of the peak
+ * thread count is active. Throughput is smoothed with a rolling median and
+ * counts as stable from the first to the last bucket reaching 90% of its
+ * plateau. When both are available the steady state is where they agree.
+ * Returns null when the points lack bucket times or no steady state of at
+ * least three buckets is found. `run` spans the first to just past the
+ * last sample, since buckets start on the clock rather than with the run.
+ */
+export const detectRunPhases = (points: ChartDataPoint[], bucketSize: number, run: PhaseSpan): RunPhases | null => {
+  if (points.length < MIN_STEADY_BUCKETS || points.some(point => point.start === undefined)) return null;
+
+  const threads = points.every(point => point.activeThreads !== undefined)
+    ? points.map(point => point.activeThreads!)
+    : null;
+  const threadRange = threads && rangeAtOrAbove(threads, Math.max(...threads) * THREAD_LEVEL);
+
+  const throughput = rollingMedian(points.map(point => point.throughput), SMOOTHING_RADIUS);
+  const throughputRange = rangeAtOrAbove(throughput, Math.max(...throughput) * THROUGHPUT_LEVEL);
+
+  let range = threadRange ?? throughputRange;
+  let basis: RunPhases['basis'] = threadRange ? 'threads' : 'throughput';
+  if (threadRange && throughputRange) {
+    const overlap: [number, number] = [Math.max(threadRange[0], throughputRange[0]), Math.min(threadRange[1], throughputRange[1])];
+    if (overlap[1] - overlap[0] + 1 >= MIN_STEADY_BUCKETS) {
+      range = overlap;
+      basis = 'threads and throughput';
+    }
+  }
+  if (!range || range[1] - range[0] + 1 < MIN_STEADY_BUCKETS) return null;
+
+  const steady = {
+    from: Math.max(run.from, points[range[0]].start!),
+    to: Math.min(run.to, points[range[1]].start! + bucketSize * 1000)
+  };
+  return {
+    rampUp: steady.from > run.from ? { from: run.from, to: steady.from } : undefined,
+    steady,
+    rampDown: steady.to < run.to ? { from: steady.to, to: run.to } : undefined,
+    basis
+  };
+};
+
+/** The ramps of a run, which charts shade so the steady state stands out. */
+export const rampSpans = (phases: RunPhases): { label: string; span: PhaseSpan }[] => [
+  ...(phases.rampUp ? [{ label: 'Ramp-up', span: phases.rampUp }] : []),
+  ...(phases.rampDown ? [{ label: 'Ramp-down', span: phases.rampDown }] : [])
+];
+
+/**
+ * First and last of a series of time buckets overlapping a span, given the
+ * start of each bucket in order; a bucket runs until the next one starts.
+ */
+export const overlappingBuckets = (starts: number[], span: PhaseSpan): [number, number] | null => {
+  let first = -1;
+  let last = -1;
+  for (let index = 0; index < starts.length; index++) {
+    const next = index + 1 < starts.length ? starts[index + 1] : Infinity;
+    if (starts[index] < span.to && next > span.from) {
+      if (first < 0) first = index;
+      last = index;
+    }
+  }
+  return first < 0 ? null : [first, last];
+};
+
+const BASIS_NAMES: Record<RunPhases['basis'], string> = {
+  threads: 'thread counts',
+  throughput: 'throughput',
+  'threads and throughput': 'thread counts and throughput'
+};
+
+/** One line on where the steady state is, with offsets from the start of the run. */
+export const describeSteadyState = (phases: RunPhases, runStart: number) =>
+  `Steady state from ${formatRunOffset(phases.steady.from - runStart)} to ${formatRunOffset(phases.steady.to - runStart)}, detected from ${BASIS_NAMES[phases.basis]}`;
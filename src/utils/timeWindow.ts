@@ -0,0 +1,42 @@
+import type { RecordFilter } from './jtlParser';
+
+/**
+ * The zoomed time window travels in the URL as seconds from the start of the
+ * run (`?from=300&to=3300`) rather than as epoch times, so a shared link
+ * still applies once the same results are loaded again.
+ */
+export type TimeWindow = Pick<RecordFilter, 'from' | 'to'>;
+
+const readOffset = (params: URLSearchParams, name: string, runStart: number): number | undefined => {
+  const value = params.get(name);
+  if (value === null || value.trim() === '') return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? runStart + Math.round(seconds * 1000) : undefined;
+};
+
+export const readTimeWindow = (params: URLSearchParams, runStart: number): TimeWindow => ({
+  from: readOffset(params, 'from', runStart),
+  to: readOffset(params, 'to', runStart)
+});
+
+/** A copy of the search params with the window replaced, or removed when it is open on both ends. */
+export const writeTimeWindow = (params: URLSearchParams, window: TimeWindow, runStart: number): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  for (const name of ['from', 'to'] as const) {
+    const time = window[name];
+    if (time === undefined) next.delete(name);
+    else next.set(name, String((time - runStart) / 1000));
+  }
+  return next;
+};
+
+export const sameTimeWindow = (a: TimeWindow, b: TimeWindow) => a.from === b.from && a.to === b.to;
+
+/** Time since the start of the run as m:ss or h:mm:ss. */
+export const formatRunOffset = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
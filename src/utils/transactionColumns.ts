@@ -0,0 +1,65 @@
+import type { TransactionSummary } from './jtlParser';
+
+export type TransactionColumnId = Exclude<keyof TransactionSummary, 'label'>;
+
+export interface TransactionColumn {
+  id: TransactionColumnId;
+  title: string;
+  /** Shown until the user picks their own columns */
+  defaultVisible: boolean;
+  format: (value: number) => string;
+}
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms.toFixed(0)}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+const formatRate = (unit: string) => (value: number) => `${value.toFixed(2)}${unit}`;
+
+/** The columns of JMeter's Aggregate Report, in its order. */
+export const TRANSACTION_COLUMNS: TransactionColumn[] = [
+  { id: 'count', title: 'Requests', defaultVisible: true, format: value => value.toLocaleString() },
+  { id: 'avgResponseTime', title: 'Average', defaultVisible: true, format: formatDuration },
+  { id: 'medianResponseTime', title: 'Median', defaultVisible: false, format: formatDuration },
+  { id: 'p90ResponseTime', title: '90th pct', defaultVisible: false, format: formatDuration },
+  { id: 'p95ResponseTime', title: '95th pct', defaultVisible: true, format: formatDuration },
+  { id: 'p99ResponseTime', title: '99th pct', defaultVisible: false, format: formatDuration },
+  { id: 'minResponseTime', title: 'Min', defaultVisible: false, format: formatDuration },
+  { id: 'maxResponseTime', title: 'Max', defaultVisible: false, format: formatDuration },
+  { id: 'stdDevResponseTime', title: 'Std. Dev.', defaultVisible: false, format: formatDuration },
+  { id: 'errorRate', title: 'Error Rate', defaultVisible: true, format: value => `${value.toFixed(2)}%` },
+  { id: 'errorCount', title: 'Errors', defaultVisible: true, format: value => value.toLocaleString() },
+  { id: 'throughput', title: 'Throughput', defaultVisible: true, format: formatRate('/s') },
+  { id: 'receivedKBPerSec', title: 'Received', defaultVisible: false, format: formatRate(' KB/s') },
+  { id: 'sentKBPerSec', title: 'Sent', defaultVisible: false, format: formatRate(' KB/s') },
+  { id: 'avgBytes', title: 'Avg. Bytes', defaultVisible: false, format: value => value.toLocaleString() }
+];
+
+const STORAGE_KEY = 'transactionTableColumns';
+
+/**
+ * Formats one cell. Runs saved to the history before a column existed lack
+ * its value, so those render as a dash.
+ */
+export const formatTransactionValue = (column: TransactionColumn, transaction: TransactionSummary) => {
+  const value = transaction[column.id];
+  return typeof value === 'number' ? column.format(value) : '—';
+};
+
+export const loadVisibleColumns = (): TransactionColumnId[] => {
+  const defaults = TRANSACTION_COLUMNS.filter(column => column.defaultVisible).map(column => column.id);
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return defaults;
+  try {
+    const ids: string[] = JSON.parse(saved);
+    return TRANSACTION_COLUMNS.filter(column => ids.includes(column.id)).map(column => column.id);
+  } catch (error) {
+    console.error('Error loading transaction table columns:', error);
+    return defaults;
+  }
+};
+
+export const saveVisibleColumns = (ids: TransactionColumnId[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+};
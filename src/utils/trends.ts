@@ -0,0 +1,134 @@
+import type { StoredRun } from './runHistory';
+
+export type TrendMetric = 'avgResponseTime' | 'p90ResponseTime' | 'p95ResponseTime' | 'p99ResponseTime' | 'throughput' | 'errorRate';
+
+export type TrendAxis = 'date' | 'build';
+
+export interface TrendMetricDefinition {
+  metric: TrendMetric;
+  title: string;
+  unit: string;
+  /** Throughput gets worse as it falls; everything else as it rises */
+  higherIsWorse: boolean;
+}
+
+export const TREND_METRICS: TrendMetricDefinition[] = [
+  { metric: 'avgResponseTime', title: 'Average Response Time', unit: 'ms', higherIsWorse: true },
+  { metric: 'p90ResponseTime', title: '90th Percentile', unit: 'ms', higherIsWorse: true },
+  { metric: 'p95ResponseTime', title: '95th Percentile', unit: 'ms', higherIsWorse: true },
+  { metric: 'p99ResponseTime', title: '99th Percentile', unit: 'ms', higherIsWorse: true },
+  { metric: 'throughput', title: 'Throughput', unit: 'req/s', higherIsWorse: false },
+  { metric: 'errorRate', title: 'Error Rate', unit: '%', higherIsWorse: true }
+];
+
+/** Pseudo-transaction that trends the run-wide metrics. */
+export const ALL_TRANSACTIONS = '__all__';
+
+export interface TrendOptions {
+  /** Number of preceding runs the moving baseline is computed from */
+  window: number;
+  /** Half-width of the baseline band, in standard deviations */
+  deviations: number;
+  threshold?: number;
+}
+
+export interface TrendPoint {
+  runId: string;
+  name: string;
+  date: number;
+  /** X-axis label: the build number, or the run date when there is none or the axis is by date */
+  x: string;
+  value: number | null;
+  baseline: number | null;
+  /** [lower, upper] of the moving baseline band */
+  band: [number, number] | null;
+  /** The value left the band on the bad side */
+  outsideBand: boolean;
+  /** The value is worse than the configured threshold */
+  breached: boolean;
+}
+
+export const DEFAULT_TREND_OPTIONS: TrendOptions = {
+  window: 5,
+  deviations: 2
+};
+
+const THRESHOLDS_KEY = 'trendThresholds';
+
+/** Oldest first, the order trends are plotted in. */
+export const sortRunsByDate = (runs: StoredRun[]) => [...runs].sort((a, b) => a.date - b.date);
+
+/** Transactions seen in any run, alphabetically. */
+export const listTrendLabels = (runs: StoredRun[]): string[] => {
+  const labels = new Set<string>();
+  for (const run of runs) {
+    for (const transaction of run.summary.transactions) labels.add(transaction.label);
+  }
+  return [...labels].sort((a, b) => a.localeCompare(b));
+};
+
+/** The metric for one transaction of a run, or null when the run did not exercise it. */
+export const getTrendValue = (run: StoredRun, label: string, metric: TrendMetric): number | null => {
+  if (label === ALL_TRANSACTIONS) {
+    return run.summary.metrics[metric] ?? null;
+  }
+  const transaction = run.summary.transactions.find(candidate => candidate.label === label);
+  return transaction?.[metric] ?? null;
+};
+
+/**
+ * One point per run for a transaction and metric. Each run is compared with
+ * the mean ± `deviations` standard deviations of the `window` runs before it
+ * that have a value; at least two are needed for a band.
+ */
+export const buildTrend = (
+  runs: StoredRun[],
+  label: string,
+  definition: TrendMetricDefinition,
+  axis: TrendAxis,
+  options: TrendOptions = DEFAULT_TREND_OPTIONS
+): TrendPoint[] => {
+  const history: number[] = [];
+
+  return sortRunsByDate(runs).map(run => {
+    const value = getTrendValue(run, label, definition.metric);
+    const previous = history.slice(-options.window);
+
+    let baseline: number | null = null;
+    let band: [number, number] | null = null;
+    if (previous.length >= 2) {
+      baseline = previous.reduce((sum, item) => sum + item, 0) / previous.length;
+      const variance = previous.reduce((sum, item) => sum + (item - baseline!) ** 2, 0) / (previous.length - 1);
+      const spread = options.deviations * Math.sqrt(variance);
+      band = [Math.max(0, baseline - spread), baseline + spread];
+    }
+
+    const worseThan = (limit: number) => value !== null && (definition.higherIsWorse ? value > limit : value < limit);
+    const point: TrendPoint = {
+      runId: run.id,
+      name: run.name,
+      date: run.date,
+      x: axis === 'build' && run.buildNumber ? run.buildNumber : new Date(run.date).toLocaleDateString(),
+      value,
+      baseline,
+      band,
+      outsideBand: band !== null && worseThan(definition.higherIsWorse ? band[1] : band[0]),
+      breached: options.threshold !== undefined && worseThan(options.threshold)
+    };
+
+    if (value !== null) history.push(value);
+    return point;
+  });
+};
+
+export const loadTrendThresholds = (): Partial<Record<TrendMetric, number>> => {
+  try {
+    return JSON.parse(localStorage.getItem(THRESHOLDS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveTrendThresholds = (thresholds: Partial<Record<TrendMetric, number>>) => {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+};
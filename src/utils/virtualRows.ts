@@ -0,0 +1,34 @@
+/** Tallest scroll area browsers reliably lay out; longer lists scroll proportionally. */
+const MAX_SCROLL_HEIGHT = 8_000_000;
+
+export interface VirtualRows {
+  /** First row to render */
+  first: number;
+  /** Row after the last one to render */
+  last: number;
+  /** Distance of the first rendered row from the top of the scroll area */
+  offset: number;
+  /** Height to give the scroll area */
+  height: number;
+}
+
+/**
+ * Rows of a fixed-height list that are on screen at a scroll position, plus
+ * `overscan` rows either side. Past the height browsers can lay out, every
+ * pixel scrolled moves further through the list so millions of rows still fit.
+ */
+export const visibleRows = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowCount: number,
+  rowHeight: number,
+  overscan = 10
+): VirtualRows => {
+  const contentHeight = rowCount * rowHeight;
+  const height = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  const scale = height > viewportHeight ? (contentHeight - viewportHeight) / (height - viewportHeight) : 1;
+  const top = scrollTop * scale;
+  const first = Math.max(0, Math.floor(top / rowHeight) - overscan);
+  const last = Math.min(rowCount, Math.ceil((top + viewportHeight) / rowHeight) + overscan);
+  return { first, last, offset: scrollTop - top + first * rowHeight, height };
+};
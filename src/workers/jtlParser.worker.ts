@@ -0,0 +1,73 @@
+import { JTLReader } from '@/utils/jtlReader';
+import type { ColumnMapping, JTLRecord } from '@/utils/jtlParser';
+import type { Compression } from '@/utils/archive';
+import type { WorkerRequest, WorkerResponse } from '@/utils/jtlWorkerClient';
+
+const BATCH_SIZE = 10000;
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const parse = async (file: Blob, compression?: Compression, mapping?: ColumnMapping) => {
+  const reader = new JTLReader(mapping);
+  const decoder = new TextDecoder();
+
+  let batch: JTLRecord[] = [];
+  let bytesRead = 0;
+  let rows = 0;
+  let lastProgress = 0;
+
+  // Progress is measured on the bytes read from the file, before any decompression
+  let input = file.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  }));
+  if (compression) {
+    input = input.pipeThrough(new DecompressionStream(compression));
+  }
+  const stream = input.getReader();
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    post({ type: 'records', records: batch });
+    batch = [];
+  };
+
+  const collect = (records: JTLRecord[]) => {
+    for (const record of records) {
+      batch.push(record);
+    }
+    rows += records.length;
+    if (batch.length >= BATCH_SIZE) flush();
+  };
+
+  while (true) {
+    const { done, value } = await stream.read();
+    if (done) break;
+
+    collect(reader.push(decoder.decode(value, { stream: true })));
+
+    const now = Date.now();
+    if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: 'progress', progress: { bytesRead, totalBytes: file.size, rows } });
+    }
+  }
+
+  collect(reader.push(decoder.decode()));
+  collect(reader.finish());
+  flush();
+
+  post({ type: 'progress', progress: { bytesRead, totalBytes: file.size, rows } });
+  post({ type: 'done', debugInfo: reader.getDebugInfo(), error: reader.getError() });
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  if (event.data.type === 'parse') {
+    parse(event.data.file, event.data.compression, event.data.mapping).catch(error => {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    });
+  }
+};
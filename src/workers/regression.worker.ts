@@ -0,0 +1,14 @@
+import { assessSamples } from '@/utils/regression';
+import type { RegressionWorkerRequest, RegressionWorkerResponse } from '@/utils/regressionWorkerClient';
+
+const post = (message: RegressionWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<RegressionWorkerRequest>) => {
+  if (event.data.type === 'assess') {
+    try {
+      post({ type: 'done', results: assessSamples(event.data.samples, event.data.options) });
+    } catch (error) {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+};